@@ -0,0 +1,82 @@
+import { Secp256k1HdWallet, makeCosmoshubPath } from '@cosmjs/amino'
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import { makeArbitrarySignDoc, verifyArbitrarySignature } from './arbitrary'
+import { TEST_MNEMONIC } from './testing'
+
+let wallet: Secp256k1HdWallet
+let signer: string
+let other: string
+
+beforeAll(async () => {
+  wallet = await Secp256k1HdWallet.fromMnemonic(TEST_MNEMONIC, {
+    hdPaths: [makeCosmoshubPath(0), makeCosmoshubPath(1)],
+  })
+  ;[{ address: signer }, { address: other }] = await wallet.getAccounts()
+})
+
+const signArbitrary = async (address: string, data: string | Uint8Array) =>
+  (await wallet.signAmino(address, makeArbitrarySignDoc(address, data)))
+    .signature
+
+describe('makeArbitrarySignDoc', () => {
+  it('encodes strings as UTF-8', () => {
+    expect(makeArbitrarySignDoc(signer, 'hi')).toEqual(
+      makeArbitrarySignDoc(signer, new Uint8Array([104, 105]))
+    )
+    expect(makeArbitrarySignDoc(signer, 'hi').msgs).toEqual([
+      {
+        type: 'sign/MsgSignData',
+        value: {
+          signer,
+          data: 'aGk=',
+        },
+      },
+    ])
+  })
+})
+
+describe('verifyArbitrarySignature', () => {
+  it('verifies signatures of arbitrary data', async () => {
+    const data = 'Log in to app.example'
+    await expect(
+      verifyArbitrarySignature(signer, data, await signArbitrary(signer, data))
+    ).resolves.toBe(true)
+
+    const bytes = new Uint8Array([1, 2, 3])
+    await expect(
+      verifyArbitrarySignature(
+        signer,
+        bytes,
+        await signArbitrary(signer, bytes)
+      )
+    ).resolves.toBe(true)
+  })
+
+  it('rejects signatures made by another key', async () => {
+    const data = 'Log in to app.example'
+
+    await expect(
+      verifyArbitrarySignature(signer, data, await signArbitrary(other, data))
+    ).resolves.toBe(false)
+  })
+
+  it('rejects signatures of other data', async () => {
+    await expect(
+      verifyArbitrarySignature(
+        signer,
+        'Log in to evil.com',
+        await signArbitrary(signer, 'Log in to app.example')
+      )
+    ).resolves.toBe(false)
+  })
+
+  it('rejects malformed signatures', async () => {
+    await expect(
+      verifyArbitrarySignature(signer, 'data', {
+        pub_key: { type: 'tendermint/PubKeySecp256k1', value: '' },
+        signature: 'invalid',
+      })
+    ).resolves.toBe(false)
+  })
+})
@@ -0,0 +1,73 @@
+import {
+  StdSignDoc,
+  StdSignature,
+  decodeSignature,
+  rawSecp256k1PubkeyToRawAddress,
+  serializeSignDoc,
+} from '@cosmjs/amino'
+import { Secp256k1, Secp256k1Signature, sha256 } from '@cosmjs/crypto'
+import { fromBech32 } from '@cosmjs/encoding'
+
+import { toBase64 } from './utils'
+
+const encoder = new TextEncoder()
+
+/**
+ * Create the ADR-036 amino sign doc that is signed to sign arbitrary data, as
+ * Keplr's `signArbitrary` does. Strings are signed as UTF-8.
+ */
+export const makeArbitrarySignDoc = (
+  signer: string,
+  data: string | Uint8Array
+): StdSignDoc => ({
+  chain_id: '',
+  account_number: '0',
+  sequence: '0',
+  fee: {
+    gas: '0',
+    amount: [],
+  },
+  msgs: [
+    {
+      type: 'sign/MsgSignData',
+      value: {
+        signer,
+        data: toBase64(typeof data === 'string' ? encoder.encode(data) : data),
+      },
+    },
+  ],
+  memo: '',
+})
+
+/**
+ * Verify an ADR-036 signature of arbitrary data locally, such as one returned
+ * by `signArbitrary`, checking that it was made by the signer's secp256k1 key.
+ * Returns false if the signature is invalid or made by another key.
+ */
+export const verifyArbitrarySignature = async (
+  signer: string,
+  data: string | Uint8Array,
+  signature: StdSignature
+): Promise<boolean> => {
+  try {
+    const { pubkey, signature: signatureBytes } = decodeSignature(signature)
+
+    // Verify the public key belongs to the signer.
+    const address = fromBech32(signer).data
+    const pubkeyAddress = rawSecp256k1PubkeyToRawAddress(pubkey)
+    if (
+      address.length !== pubkeyAddress.length ||
+      address.some((byte, index) => byte !== pubkeyAddress[index])
+    ) {
+      return false
+    }
+
+    return await Secp256k1.verifySignature(
+      Secp256k1Signature.fromFixedLength(signatureBytes),
+      sha256(serializeSignDoc(makeArbitrarySignDoc(signer, data))),
+      pubkey
+    )
+  } catch {
+    return false
+  }
+}
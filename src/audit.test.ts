@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+
+import { CosmiframeAuditLog } from './audit'
+import { defaultCodec } from './codec'
+import { AuditEvent } from './types'
+
+const origin = 'https://app.example'
+
+const createEvent = (event: Partial<AuditEvent> = {}): AuditEvent => ({
+  type: 'received',
+  timestamp: 1000,
+  origin,
+  requestId: '1',
+  method: 'getKey',
+  chainId: 'juno-1',
+  ...event,
+})
+
+describe('CosmiframeAuditLog', () => {
+  it('drops the oldest events once full', () => {
+    const log = new CosmiframeAuditLog({ maxEvents: 2 })
+    log.record(createEvent({ requestId: '1' }))
+    log.record(createEvent({ requestId: '2' }))
+    log.record(createEvent({ requestId: '3' }))
+
+    expect(log.events.map(({ requestId }) => requestId)).toEqual(['2', '3'])
+
+    log.clear()
+    expect(log.events).toEqual([])
+  })
+
+  it('queries events matching every filter', () => {
+    const log = new CosmiframeAuditLog()
+    const events = [
+      createEvent({ timestamp: 1000 }),
+      createEvent({ type: 'succeeded', timestamp: 2000, duration: 1000 }),
+      createEvent({
+        type: 'received',
+        timestamp: 3000,
+        requestId: '2',
+        method: 'signDirect',
+      }),
+      createEvent({
+        type: 'rejected',
+        timestamp: 4000,
+        origin: 'https://evil.example',
+        rejection: 'origin',
+      }),
+    ]
+    events.forEach((event) => log.record(event))
+
+    expect(log.query()).toEqual(events)
+    expect(log.query({ type: 'received' })).toEqual([events[0], events[2]])
+    expect(log.query({ type: ['succeeded', 'rejected'] })).toEqual([
+      events[1],
+      events[3],
+    ])
+    expect(log.query({ origin, method: 'getKey' })).toEqual([
+      events[0],
+      events[1],
+    ])
+    expect(log.query({ requestId: '2' })).toEqual([events[2]])
+    expect(log.query({ since: 2000, until: 4000 })).toEqual([
+      events[1],
+      events[2],
+    ])
+    // The most recent matching events.
+    expect(log.query({ origin, limit: 2 })).toEqual([events[1], events[2]])
+  })
+
+  it('exports events as JSON encoded with the codec', () => {
+    const log = new CosmiframeAuditLog()
+    const event = createEvent({
+      method: 'signDirect',
+      signDoc: {
+        signerType: 'direct',
+        signerAddress: 'juno1',
+        chainId: 'juno-1',
+        accountNumber: '1',
+        sequence: '0',
+        memo: '',
+        fee: {
+          amount: [],
+          gas: '200000',
+        },
+        messages: [
+          {
+            typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+            value: {
+              amount: [{ denom: 'ujuno', amount: 1n }],
+              memo: new Uint8Array([1, 2, 3]),
+            },
+          },
+        ],
+      },
+    })
+    log.record(event)
+    log.record(createEvent({ type: 'failed', timestamp: 2000 }))
+
+    const json = log.export({ type: 'received' })
+    expect(defaultCodec.decode(JSON.parse(json))).toEqual([event])
+  })
+})
@@ -0,0 +1,88 @@
+import { defaultCodec } from './codec'
+import { AuditEvent, AuditLogQuery } from './types'
+
+export type CosmiframeAuditLogOptions = {
+  /**
+   * The maximum number of events kept. Once reached, the oldest events are
+   * dropped. Defaults to 1000.
+   */
+  maxEvents?: number
+}
+
+/**
+ * Keeps a bounded in-memory record of the audit events of requests received
+ * from iframes, such as every sign request an app made. Pass it to `listen` or
+ * a host to record events automatically. This should be used by the parent.
+ */
+export class CosmiframeAuditLog {
+  #maxEvents: number
+  #events: AuditEvent[] = []
+
+  constructor({ maxEvents = 1000 }: CosmiframeAuditLogOptions = {}) {
+    this.#maxEvents = maxEvents
+  }
+
+  /**
+   * The recorded events, oldest first.
+   */
+  get events(): AuditEvent[] {
+    return [...this.#events]
+  }
+
+  /**
+   * Record an event, dropping the oldest events if the log is full.
+   */
+  record(event: AuditEvent) {
+    this.#events.push(event)
+    if (this.#events.length > this.#maxEvents) {
+      this.#events.splice(0, this.#events.length - this.#maxEvents)
+    }
+  }
+
+  /**
+   * List recorded events matching the query, oldest first.
+   */
+  query({
+    type,
+    origin,
+    requestId,
+    method,
+    chainId,
+    since,
+    until,
+    limit,
+  }: AuditLogQuery = {}): AuditEvent[] {
+    const types = type === undefined ? undefined : [type].flat()
+
+    const events = this.#events.filter(
+      (event) =>
+        (!types || types.includes(event.type)) &&
+        (origin === undefined || event.origin === origin) &&
+        (requestId === undefined || event.requestId === requestId) &&
+        (method === undefined || event.method === method) &&
+        (chainId === undefined || event.chainId === chainId) &&
+        (since === undefined || event.timestamp >= since) &&
+        (until === undefined || event.timestamp < until)
+    )
+
+    return limit === undefined
+      ? events
+      : events.slice(Math.max(events.length - limit, 0))
+  }
+
+  /**
+   * Export events matching the query as JSON. Values that JSON does not
+   * support, such as `Uint8Array`s and `bigint`s in sign docs, are encoded
+   * with the built-in codec.
+   */
+  export(query?: AuditLogQuery): string {
+    return JSON.stringify(defaultCodec.encode(this.query(query)))
+  }
+
+  /**
+   * Remove all recorded events.
+   */
+  clear() {
+    this.#events = []
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+
+import { CosmiframeSecureChannel } from './channel'
+import { Cosmiframe } from './client'
+import { CosmiframeSecureChannelError } from './error'
+import { createMemoryTransports } from './transport'
+import { RequestMethodCallMessage } from './types'
+
+const createChannels = async (id = 'channel') => {
+  const [iframeKeyPair, parentKeyPair] = await Promise.all([
+    CosmiframeSecureChannel.generateKeyPair(),
+    CosmiframeSecureChannel.generateKeyPair(),
+  ])
+
+  const [iframe, parent] = await Promise.all([
+    CosmiframeSecureChannel.create({
+      id,
+      origin: 'https://parent.example',
+      role: 'iframe',
+      privateKey: iframeKeyPair.privateKey,
+      publicKey: await CosmiframeSecureChannel.exportPublicKey(parentKeyPair),
+    }),
+    CosmiframeSecureChannel.create({
+      id,
+      origin: 'https://app.example',
+      role: 'parent',
+      privateKey: parentKeyPair.privateKey,
+      publicKey: await CosmiframeSecureChannel.exportPublicKey(iframeKeyPair),
+    }),
+  ])
+
+  return { iframe, parent }
+}
+
+describe('CosmiframeSecureChannel', () => {
+  it('decrypts messages from the other side', async () => {
+    const { iframe, parent } = await createChannels()
+    const message = { method: 'getKey', params: ['juno-1', 5n] }
+
+    const sealed = await iframe.seal(message)
+    expect(sealed).toMatchObject({ type: 'secure', channel: 'channel' })
+    expect(new TextDecoder().decode(sealed.data)).not.toContain('getKey')
+
+    await expect(parent.open(sealed)).resolves.toEqual(message)
+    await expect(iframe.open(await parent.seal('response'))).resolves.toBe(
+      'response'
+    )
+  })
+
+  it('rejects messages sent to itself or over another channel', async () => {
+    const { iframe } = await createChannels()
+    const other = await createChannels()
+
+    await expect(iframe.open(await iframe.seal('message'))).rejects.toThrow(
+      'Failed to decrypt message.'
+    )
+    await expect(
+      other.parent.open(await iframe.seal('message'))
+    ).rejects.toThrow(CosmiframeSecureChannelError)
+  })
+
+  it('rejects tampered messages', async () => {
+    const { iframe, parent } = await createChannels()
+
+    const sealed = await iframe.seal('message')
+    const data = new Uint8Array(sealed.data)
+    data[0] ^= 1
+    await expect(parent.open({ ...sealed, data })).rejects.toThrow(
+      'Failed to decrypt message.'
+    )
+
+    // The sequence number is authenticated too.
+    await expect(
+      parent.open({ ...(await iframe.seal('message')), sequence: 100 })
+    ).rejects.toThrow('Failed to decrypt message.')
+  })
+
+  it('rejects replayed messages', async () => {
+    const { iframe, parent } = await createChannels()
+
+    const first = await iframe.seal('first')
+    await parent.open(first)
+    await expect(parent.open(first)).rejects.toThrow('Message was replayed.')
+
+    // Messages may arrive out of order within the replay window.
+    const second = await iframe.seal('second')
+    const third = await iframe.seal('third')
+    await expect(parent.open(third)).resolves.toBe('third')
+    await expect(parent.open(second)).resolves.toBe('second')
+  })
+
+  it('rejects messages older than the replay window', async () => {
+    const { iframe, parent } = await createChannels()
+
+    const old = await iframe.seal('old')
+    await parent.open(await iframe.seal('opened'))
+    for (let i = 0; i < 1024; i++) {
+      await parent.open(await iframe.seal(i))
+    }
+
+    await expect(parent.open(old)).rejects.toThrow('Message was replayed.')
+  })
+})
+
+describe('Cosmiframe', () => {
+  /**
+   * Listen like a parent that does not support secure channels.
+   */
+  const createLegacyParent = () => {
+    const transports = createMemoryTransports({
+      iframeOrigin: 'https://app.example',
+      parentOrigin: 'https://parent.example',
+    })
+    transports.parent.listen(({ data }) => {
+      const { id, internal, method } = data as RequestMethodCallMessage
+      transports.parent.postMessage(
+        internal
+          ? {
+              id,
+              type: 'error',
+              error: `Unknown internal method: ${method}`,
+            }
+          : { id, type: 'success', response: 'key' },
+        '*'
+      )
+    })
+
+    return transports
+  }
+
+  it('falls back to plain messages if a secure channel is preferred', async () => {
+    const { iframe } = createLegacyParent()
+    const client = new Cosmiframe(['https://parent.example'], {
+      secure: 'preferred',
+      transport: iframe,
+    })
+
+    await expect(
+      client.callParentMethod({ method: 'getKey', params: ['juno-1'] })
+    ).resolves.toMatchObject({ result: 'key' })
+    expect(client.secure).toBe(false)
+
+    client.destroy()
+  })
+
+  it('does not fall back if a secure channel is required', async () => {
+    const { iframe } = createLegacyParent()
+    const client = new Cosmiframe(['https://parent.example'], {
+      secure: 'required',
+      transport: iframe,
+    })
+
+    await expect(
+      client.callParentMethod({ method: 'getKey', params: ['juno-1'] })
+    ).rejects.toThrow(CosmiframeSecureChannelError)
+
+    client.destroy()
+  })
+})
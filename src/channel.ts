@@ -0,0 +1,253 @@
+import { defaultCodec } from './codec'
+import { CosmiframeSecureChannelError } from './error'
+import { SecureMessage } from './types'
+
+/**
+ * The number of recent sequence numbers remembered to reject replayed
+ * messages. Messages older than these are rejected too.
+ */
+const REPLAY_WINDOW = 1024
+
+const ECDH_PARAMS: EcKeyImportParams = {
+  name: 'ECDH',
+  namedCurve: 'P-256',
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * Returns whether or not a message was encrypted with a secure channel.
+ */
+export const isSecureMessage = (data: unknown): data is SecureMessage =>
+  !!data &&
+  typeof data === 'object' &&
+  'type' in data &&
+  data.type === 'secure' &&
+  'channel' in data &&
+  typeof data.channel === 'string'
+
+export type CosmiframeSecureChannelOptions = {
+  /**
+   * The ID of the channel, chosen by the parent.
+   */
+  id: string
+  /**
+   * The origin of the other side, which messages are sent to and accepted
+   * from.
+   */
+  origin: string
+  /**
+   * Which side of the channel this is.
+   */
+  role: 'iframe' | 'parent'
+  /**
+   * This side's private key from `generateKeyPair`.
+   */
+  privateKey: CryptoKey
+  /**
+   * The other side's raw public key.
+   */
+  publicKey: Uint8Array
+}
+
+/**
+ * An encrypted channel between an iframe and its parent, keyed by an ECDH key
+ * exchange. Each message is encrypted with AES-GCM using a random nonce and a
+ * key for its direction, and carries a sequence number so replayed messages
+ * are rejected. Both the iframe and parent create one during the key exchange.
+ */
+export class CosmiframeSecureChannel {
+  /**
+   * The ID of the channel, sent with each message encrypted with it.
+   */
+  readonly id: string
+
+  /**
+   * The origin of the other side, which messages are sent to and accepted
+   * from.
+   */
+  readonly origin: string
+
+  #sendKey: CryptoKey
+  #receiveKey: CryptoKey
+
+  /**
+   * The sequence number of the last message sent.
+   */
+  #sequence = 0
+
+  /**
+   * Sequence numbers of recently received messages.
+   */
+  #received = new Set<number>()
+
+  /**
+   * Messages with sequence numbers at or below this are rejected.
+   */
+  #floor = 0
+
+  private constructor(
+    id: string,
+    origin: string,
+    sendKey: CryptoKey,
+    receiveKey: CryptoKey
+  ) {
+    this.id = id
+    this.origin = origin
+    this.#sendKey = sendKey
+    this.#receiveKey = receiveKey
+  }
+
+  /**
+   * Generate a key pair for the key exchange. The private key cannot be
+   * exported.
+   */
+  static generateKeyPair(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits'])
+  }
+
+  /**
+   * Export the public key of a key pair to send in the key exchange.
+   */
+  static async exportPublicKey({ publicKey }: CryptoKeyPair) {
+    return new Uint8Array(await crypto.subtle.exportKey('raw', publicKey))
+  }
+
+  /**
+   * Derive the keys for each direction from this side's private key and the
+   * other side's public key.
+   */
+  static async create({
+    id,
+    origin,
+    role,
+    privateKey,
+    publicKey,
+  }: CosmiframeSecureChannelOptions): Promise<CosmiframeSecureChannel> {
+    const secret = await crypto.subtle.deriveBits(
+      {
+        name: 'ECDH',
+        public: await crypto.subtle.importKey(
+          'raw',
+          publicKey,
+          ECDH_PARAMS,
+          false,
+          []
+        ),
+      },
+      privateKey,
+      256
+    )
+    const baseKey = await crypto.subtle.importKey(
+      'raw',
+      secret,
+      'HKDF',
+      false,
+      ['deriveKey']
+    )
+
+    const deriveKey = (direction: string, usage: KeyUsage) =>
+      crypto.subtle.deriveKey(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(),
+          info: encoder.encode(`cosmiframe/${id}/${direction}`),
+        },
+        baseKey,
+        {
+          name: 'AES-GCM',
+          length: 256,
+        },
+        false,
+        [usage]
+      )
+
+    const [iframeKey, parentKey] = await Promise.all([
+      deriveKey('iframe', role === 'iframe' ? 'encrypt' : 'decrypt'),
+      deriveKey('parent', role === 'parent' ? 'encrypt' : 'decrypt'),
+    ])
+
+    return role === 'iframe'
+      ? new CosmiframeSecureChannel(id, origin, iframeKey, parentKey)
+      : new CosmiframeSecureChannel(id, origin, parentKey, iframeKey)
+  }
+
+  /**
+   * Encrypt a message to send to the other side.
+   */
+  async seal(message: unknown): Promise<SecureMessage> {
+    const sequence = ++this.#sequence
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+
+    const data = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: this.#getAdditionalData(sequence),
+      },
+      this.#sendKey,
+      encoder.encode(JSON.stringify(defaultCodec.encode(message)))
+    )
+
+    return {
+      type: 'secure',
+      channel: this.id,
+      sequence,
+      iv,
+      data: new Uint8Array(data),
+    }
+  }
+
+  /**
+   * Decrypt a message received from the other side, throwing a
+   * `CosmiframeSecureChannelError` if it cannot be decrypted or was already
+   * received.
+   */
+  async open({ sequence, iv, data }: SecureMessage): Promise<unknown> {
+    if (!Number.isSafeInteger(sequence) || this.#isReplayed(sequence)) {
+      throw new CosmiframeSecureChannelError('Message was replayed.')
+    }
+
+    let plaintext: ArrayBuffer
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: this.#getAdditionalData(sequence),
+        },
+        this.#receiveKey,
+        data
+      )
+    } catch {
+      throw new CosmiframeSecureChannelError('Failed to decrypt message.')
+    }
+
+    // Check again in case the same message was received while decrypting.
+    if (this.#isReplayed(sequence)) {
+      throw new CosmiframeSecureChannelError('Message was replayed.')
+    }
+
+    this.#received.add(sequence)
+    if (this.#received.size > REPLAY_WINDOW) {
+      const [oldest] = this.#received
+      this.#received.delete(oldest)
+      this.#floor = Math.max(this.#floor, oldest)
+    }
+
+    return defaultCodec.decode(JSON.parse(decoder.decode(plaintext)))
+  }
+
+  #isReplayed(sequence: number) {
+    return sequence <= this.#floor || this.#received.has(sequence)
+  }
+
+  /**
+   * Bind each message to the channel and its sequence number.
+   */
+  #getAdditionalData(sequence: number) {
+    return encoder.encode(`${this.id}/${sequence}`)
+  }
+}
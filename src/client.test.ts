@@ -0,0 +1,258 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { Cosmiframe } from './client'
+import { defaultCodec } from './codec'
+import {
+  CosmiframeCancelledError,
+  CosmiframeInvalidRequestError,
+  CosmiframeMethodNotFoundError,
+} from './error'
+import { CosmiframeHost } from './host'
+import { createMemoryTransports } from './transport'
+import {
+  BatchRequest,
+  CancelRequestMessage,
+  CosmiframeOptions,
+  CosmiframeTransport,
+  InternalMethod,
+  RequestMethodCallMessage,
+} from './types'
+
+/**
+ * The target of the host, whose type clients can use to type their proxy.
+ */
+const target = {
+  getKey: async (chainId: string) => `${chainId} key`,
+  enigmaEncrypt: async (chainId: string, codeHash: string, msg: object) =>
+    `${chainId} ${codeHash} ${JSON.stringify(msg)}`,
+}
+
+/**
+ * Create a client and a parent that records the messages it receives, without
+ * responding unless a host is registered with it.
+ */
+const createClient = <TTarget extends object = any>(
+  options?: CosmiframeOptions
+) => {
+  const { iframe, parent } = createMemoryTransports({
+    iframeOrigin: 'https://app.example',
+    parentOrigin: 'https://parent.example',
+  })
+  const messages: (RequestMethodCallMessage | CancelRequestMessage)[] = []
+  parent.listen(({ data }) => messages.push(data as RequestMethodCallMessage))
+
+  const client = new Cosmiframe<TTarget>(['https://parent.example'], {
+    ...options,
+    transport: iframe,
+  })
+
+  return { client, messages, parent }
+}
+
+/**
+ * Respond to requests received by the parent with a host.
+ */
+const registerHost = (parent: CosmiframeTransport) =>
+  new CosmiframeHost({
+    target,
+    getOfflineSignerDirect: () => {
+      throw new Error('Unused.')
+    },
+    getOfflineSignerAmino: () => {
+      throw new Error('Unused.')
+    },
+  }).register(parent)
+
+/**
+ * Returns the methods of the requests the parent received.
+ */
+const getMethods = (
+  messages: (RequestMethodCallMessage | CancelRequestMessage)[]
+) =>
+  messages.flatMap((message) => ('method' in message ? [message.method] : []))
+
+describe('Cosmiframe', () => {
+  afterEach(() => {
+    window.opener = null
+  })
+
+  it('talks to the window that opened it in a popup', async () => {
+    const client = new Cosmiframe(['https://parent.example'])
+    await expect(client.isReady()).resolves.toBe(false)
+
+    const opener = { postMessage: vi.fn() }
+    opener.postMessage.mockImplementation((request: RequestMethodCallMessage) =>
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: { id: request.id, type: 'success', response: true },
+          origin: 'https://parent.example',
+          source: opener as unknown as MessageEventSource,
+        })
+      )
+    )
+    window.opener = opener
+
+    await expect(client.isReady()).resolves.toBe('https://parent.example')
+    expect(opener.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ method: InternalMethod.IsCosmiframe }),
+      '*',
+      undefined
+    )
+
+    client.destroy()
+  })
+
+  it('proxies calls to the typed target', async () => {
+    const { client, parent } = createClient<typeof target>()
+    const unregister = registerHost(parent)
+
+    const key: string = await client.p.getKey('juno-1')
+    expect(key).toBe('juno-1 key')
+    await expect(
+      // @ts-expect-error Methods missing from the target are not typed.
+      client.p.getMissing('juno-1')
+    ).rejects.toThrow(CosmiframeMethodNotFoundError)
+
+    // Secret utilities are called with the chain ID.
+    await expect(
+      client.p.getEnigmaUtils('secret-4').encrypt('hash', { count: {} })
+    ).resolves.toBe('secret-4 hash {"count":{}}')
+
+    client.destroy()
+    unregister()
+  })
+
+  it('proxies Keplr methods to the parent', async () => {
+    const { client, parent } = createClient()
+    const unregister = registerHost(parent)
+
+    const keplr = client.getKeplrClient()
+    expect(keplr.version).toBe('cosmiframe')
+    await expect(keplr.getKey('juno-1')).resolves.toBe('juno-1 key')
+    await expect(
+      keplr.getEnigmaUtils('secret-4').encrypt('hash', {})
+    ).resolves.toBe('secret-4 hash {}')
+
+    client.destroy()
+    unregister()
+  })
+
+  it('sends calls made in the same tick in one batch', async () => {
+    const { client, messages, parent } = createClient({ batch: true })
+    const unregister = registerHost(parent)
+
+    await expect(
+      Promise.all([
+        client.p.getKey('juno-1'),
+        client.p.getKey('osmosis-1'),
+        client.p.getKey('stargaze-1'),
+      ])
+    ).resolves.toEqual(['juno-1 key', 'osmosis-1 key', 'stargaze-1 key'])
+    // The handshake checks that the parent supports batching.
+    expect(getMethods(messages)).toEqual([
+      InternalMethod.Handshake,
+      InternalMethod.Batch,
+    ])
+
+    // Calls made in later ticks are sent separately.
+    messages.length = 0
+    await client.p.getKey('juno-1')
+    await client.p.getKey('osmosis-1')
+    expect(getMethods(messages)).toEqual(['getKey', 'getKey'])
+
+    client.destroy()
+    unregister()
+  })
+
+  it('only rejects the calls in a batch that fail', async () => {
+    const { client, parent } = createClient({ batch: true })
+    const unregister = registerHost(parent)
+
+    const [key, missing] = await Promise.allSettled([
+      client.p.getKey('juno-1'),
+      client.p.getMissing('juno-1'),
+    ])
+    expect(key).toEqual({ status: 'fulfilled', value: 'juno-1 key' })
+    expect(missing).toMatchObject({
+      status: 'rejected',
+      reason: expect.any(CosmiframeMethodNotFoundError),
+    })
+
+    await expect(
+      client.callParentMethods([
+        { method: 'getMissing', params: ['juno-1'] },
+        { method: 'getKey', params: ['juno-1'] },
+      ])
+    ).resolves.toEqual([
+      {
+        status: 'rejected',
+        reason: expect.any(CosmiframeMethodNotFoundError),
+      },
+      { status: 'fulfilled', value: 'juno-1 key' },
+    ])
+
+    client.destroy()
+    unregister()
+  })
+
+  it('rejects batches nested in a batch', async () => {
+    const { client, parent } = createClient()
+    const unregister = registerHost(parent)
+
+    const [nested, key] = await client.callParentMethods(
+      [
+        {
+          internal: true,
+          method: InternalMethod.Batch,
+          params: [{ calls: [], mode: 'parallel' }],
+        },
+        { method: 'getKey', params: ['juno-1'] },
+      ],
+      'sequence'
+    )
+    expect(nested).toMatchObject({
+      status: 'rejected',
+      reason: new CosmiframeInvalidRequestError(
+        'Invalid call at index 0 in batch request: Batches cannot be nested.'
+      ),
+    })
+    expect(key).toEqual({ status: 'fulfilled', value: 'juno-1 key' })
+
+    client.destroy()
+    unregister()
+  })
+
+  it('cancels batches when their signal is aborted', async () => {
+    const { client, messages } = createClient()
+    const controller = new AbortController()
+
+    const results = client.callParentMethods(
+      [
+        { method: 'getKey', params: ['juno-1'] },
+        { method: 'getKey', params: ['osmosis-1'] },
+      ],
+      'sequence',
+      { signal: controller.signal }
+    )
+    await expect.poll(() => messages).toHaveLength(1)
+
+    const [request] = messages as RequestMethodCallMessage[]
+    expect(request).toMatchObject({
+      internal: true,
+      method: InternalMethod.Batch,
+    })
+    expect(
+      (defaultCodec.decode(request.encodedParams) as BatchRequest[])[0].mode
+    ).toBe('sequence')
+
+    controller.abort()
+    await expect(results).rejects.toThrow(CosmiframeCancelledError)
+    await expect.poll(() => messages).toHaveLength(2)
+    expect(messages[1]).toEqual({ type: 'cancel', id: request.id })
+    expect(client.pendingRequests).toEqual([])
+
+    client.destroy()
+  })
+})
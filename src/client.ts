@@ -1,45 +1,210 @@
+import { AccountData } from '@cosmjs/proto-signing'
 import { Keplr, SecretUtils } from '@keplr-wallet/types'
 
-import { CosmiframeTimeoutError } from './error'
+import { CosmiframeSecureChannel } from './channel'
+import { CosmiframeCodec, defaultCodec } from './codec'
+import { CosmiframeDispatcher } from './dispatcher'
+import {
+  CosmiframeCancelledError,
+  CosmiframeError,
+  CosmiframeErrorCode,
+  CosmiframeInvalidResponseError,
+  CosmiframeMethodNotFoundError,
+  CosmiframeSecureChannelError,
+  CosmiframeTimeoutError,
+  deserializeError,
+  serializeError,
+} from './error'
+import { CosmiframeHost } from './host'
+import { CosmiframeOriginManifest } from './manifest'
 import {
   CosmiframeAminoSigner,
   CosmiframeDirectSigner,
   CosmiframeEitherSigner,
 } from './signers'
 import {
+  BatchMode,
+  BatchRequest,
+  CallOptions,
+  CallParentMethodOptions,
   CalledParentMethodResult,
+  Capabilities,
+  CosmiframeFeature,
+  CosmiframeOptions,
+  CosmiframeProxy,
+  EventHandler,
+  HandshakeInfo,
   InternalMethod,
+  KeyExchangeRequest,
+  KeyExchangeResponse,
+  ListenHandle,
   ListenOptions,
-  MethodCallResultMessage,
+  MessageLimits,
+  MethodCallResultMessageNoId,
+  MethodValidator,
   Origin,
   ParentMetadata,
-  RequestMethodCallMessage,
+  ParentMethodCaller,
+  PendingRequest,
+  RelayOptions,
+  SignerCapabilities,
+  SignerOptions,
 } from './types'
 import {
+  KEPLR_KEYSTORE_CHANGE_EVENT,
+  PROTOCOL_VERSION,
   UNSAFE_ALLOW_ANY_ORIGIN,
-  callParentMethod,
   isInIframe,
-  isOriginAllowed,
-  processOverrideHandler,
+  isInPopup,
+  toCallOptions,
 } from './utils'
+import {
+  validateParams,
+  validateResult,
+  validateResultMessage,
+} from './validate'
+
+/**
+ * Returns whether or not an error is the parent's response to an internal
+ * method it does not know. Older parents do not send error codes.
+ */
+const isUnknownInternalMethodError = (err: unknown) =>
+  err instanceof CosmiframeMethodNotFoundError ||
+  (err instanceof CosmiframeError &&
+    err.code === CosmiframeErrorCode.Unknown &&
+    err.message.startsWith('Unknown internal method'))
 
-export class Cosmiframe {
+export class Cosmiframe<TTarget extends object = any> {
   /**
-   * Parent origins we are allowed to communicate with.
+   * Parent origins we are allowed to communicate with, unless a valid manifest
+   * is loaded.
    */
   #allowedOrigins: Origin[]
 
+  /**
+   * The signed manifest parent origins are loaded from, if any.
+   */
+  #manifest?: CosmiframeOriginManifest
+
+  /**
+   * Codec used to encode params and decode results.
+   */
+  #codec: CosmiframeCodec
+
+  /**
+   * Sends requests to the parent and dispatches its responses and events.
+   */
+  #dispatcher: CosmiframeDispatcher
+
+  /**
+   * The parent's capabilities, cached after the first handshake.
+   */
+  #capabilities?: Promise<Capabilities>
+
+  /**
+   * Whether or not to coalesce calls made in the same tick into batches.
+   */
+  #batch: boolean
+
+  /**
+   * Default timeouts keyed by method.
+   */
+  #timeouts: Partial<Record<string, number>>
+
+  /**
+   * Limits on responses from the parent.
+   */
+  #limits?: MessageLimits
+
+  /**
+   * Validators for the params and results of methods, keyed by method.
+   */
+  #validators?: Partial<Record<string, MethodValidator>>
+
+  /**
+   * Resolves once the allowed origins are loaded from the manifest, if any.
+   */
+  #originsLoaded?: Promise<void>
+
+  /**
+   * When the manifest the allowed origins were loaded from expires, if any.
+   */
+  #originsExpireAt?: number
+
+  /**
+   * Whether a secure channel is required, preferred or not used.
+   */
+  #secure?: CosmiframeOptions['secure']
+
+  /**
+   * Whether or not to hand off communication to a dedicated port.
+   */
+  #messagePort: boolean
+
+  /**
+   * Whether or not signers check the docs signed by the parent by default.
+   */
+  #signDocIntegrity: SignerOptions['integrity']
+
+  /**
+   * Whether or not a transport was provided instead of talking to the parent
+   * window.
+   */
+  #hasTransport: boolean
+
+  /**
+   * Resolves once the port is handed off and the secure channel established,
+   * if enabled, or the parent does not support them and falling back is
+   * allowed.
+   */
+  #connection?: Promise<void>
+
+  /**
+   * The parent's signer capabilities by chain ID, cached until the parent
+   * emits a key change event.
+   */
+  #signerCapabilities = new Map<string, Promise<SignerCapabilities>>()
+
+  /**
+   * Accounts returned to signers from `getOfflineSignerAuto`, by signer type
+   * and chain ID, cached until the parent emits a key change event.
+   */
+  #accounts = new Map<
+    string,
+    Promise<CalledParentMethodResult<readonly AccountData[]>>
+  >()
+
+  /**
+   * Stops clearing cached signer capabilities and accounts on key changes,
+   * once watching.
+   */
+  #unwatchKeyChanges?: () => void
+
+  /**
+   * Calls waiting to be sent in the next batch.
+   */
+  #queue: {
+    options: CallParentMethodOptions
+    resolve: (result: CalledParentMethodResult<any>) => void
+    reject: (err: unknown) => void
+    /**
+     * When the call times out, in milliseconds since the epoch.
+     */
+    deadline?: number
+  }[] = []
+
   /**
    * Proxy object that can be used to call methods on the parent frame. This
    * serves as a passthrough and is a convenient alternative to using
-   * `callParentMethod`. This should be used by the iframe.
+   * `callParentMethod`. Its methods are typed if the client is given a target
+   * type, such as `KeplrTarget`. This should be used by the iframe.
    *
    * For example:
    *
-   * const cosmiframe = new Cosmiframe()
-   * const accounts = await cosmiframe.p.getAccounts()
+   * const cosmiframe = new Cosmiframe<KeplrTarget>(allowedParentOrigins)
+   * const key = await cosmiframe.p.getKey('cosmoshub-4')
    */
-  public p: { [key: string]: <T = any>(...params: any[]) => Promise<T> }
+  public p: CosmiframeProxy<TTarget>
 
   constructor(
     /**
@@ -47,10 +212,29 @@ export class Cosmiframe {
      *
      * In order to allow all origins, you must explicitly pass in the string
      * `UNSAFE_ALLOW_ANY_ORIGIN`. Do not do this. It is very unsafe.
+     *
+     * If an origin manifest is set, these are only used if no valid manifest
+     * can be loaded, and may be empty.
      */
-    allowedParentOrigins: Origin[]
+    allowedParentOrigins: Origin[],
+    /**
+     * Client options.
+     */
+    {
+      codec = defaultCodec,
+      batch = false,
+      timeouts = {},
+      limits,
+      validators,
+      secure,
+      manifest,
+      transport,
+      messagePort = false,
+      signDocIntegrity,
+      onError,
+    }: CosmiframeOptions = {}
   ) {
-    if (!allowedParentOrigins.length) {
+    if (!allowedParentOrigins.length && !manifest) {
       throw new Error('You must explicitly allow parent origins.')
     }
 
@@ -66,18 +250,58 @@ export class Cosmiframe {
       ? ['*']
       : [...allowedParentOrigins]
 
-    this.p = new Proxy(
+    this.#codec = codec
+    this.#batch = batch
+    this.#dispatcher = new CosmiframeDispatcher(
+      this.#allowedOrigins,
+      codec,
+      limits,
+      transport,
+      onError
+    )
+
+    // Start loading the allowed origins from the manifest.
+    this.#manifest = manifest
+    this.#loadOrigins()
+
+    this.#timeouts = timeouts
+    this.#limits = limits
+    this.#validators = validators
+    this.#secure = secure
+    this.#messagePort = messagePort
+    this.#signDocIntegrity = signDocIntegrity
+    this.#hasTransport = !!transport
+    this.p = this.#createProxy()
+  }
+
+  /**
+   * Returns a proxy object like `p` whose calls use the provided call options,
+   * such as an abort signal. This should be used by the iframe.
+   *
+   * For example:
+   *
+   * const controller = new AbortController()
+   * const key = await cosmiframe
+   *   .proxy({ signal: controller.signal })
+   *   .getKey('cosmoshub-4')
+   */
+  proxy(callOptions: CallOptions): CosmiframeProxy<TTarget> {
+    return this.#createProxy(callOptions)
+  }
+
+  #createProxy(callOptions?: CallOptions): CosmiframeProxy<TTarget> {
+    const proxy: CosmiframeProxy = new Proxy(
       {
         // `getEnigmaUtils` is expected to return an object with functions;
         // override them with proxied functions instead. This follows Keplr's
         // SecretUtils interface.
         getEnigmaUtils: (chainId: string) =>
           ({
-            getPubkey: () => this.p.getEnigmaPubKey(chainId),
-            decrypt: (...params) => this.p.enigmaDecrypt(chainId, ...params),
-            encrypt: (...params) => this.p.enigmaEncrypt(chainId, ...params),
+            getPubkey: () => proxy.getEnigmaPubKey(chainId),
+            decrypt: (...params) => proxy.enigmaDecrypt(chainId, ...params),
+            encrypt: (...params) => proxy.enigmaEncrypt(chainId, ...params),
             getTxEncryptionKey: (...params) =>
-              this.p.getEnigmaTxEncryptionKey(chainId, ...params),
+              proxy.getEnigmaTxEncryptionKey(chainId, ...params),
           }) as SecretUtils,
       } as any,
       {
@@ -93,39 +317,316 @@ export class Cosmiframe {
                       ...params
                     )
                   : // Proxy to parent if not defined above.
-                    this.callParentMethod<T>({
-                      method: name.toString(),
-                      params,
-                    }).then(({ result }) => result),
+                    this.callParentMethod<T>(
+                      {
+                        method: name.toString(),
+                        params,
+                      },
+                      callOptions
+                    ).then(({ result }) => result),
       }
     )
+
+    return proxy as CosmiframeProxy<TTarget>
   }
 
   /**
    * Call a method on the parent frame, returning the result with metadata, such
    * as the response message origin, which should be the parent frame origin.
-   * This should be used by the iframe.
+   * If an origin manifest is set, this waits for it to load, and if a secure
+   * channel is enabled, it is established first. This should be used by the
+   * iframe.
    */
   callParentMethod<T = any>(
-    options: Pick<RequestMethodCallMessage, 'method' | 'params' | 'internal'>,
+    options: CallParentMethodOptions,
     /**
-     * The timeout in milliseconds after which to reject the promise and stop
-     * listening if the parent has not responded. If undefined, no timeout.
+     * The timeout in milliseconds or call options, such as an abort signal
+     * that cancels the request. If no timeout is set, the client's default
+     * timeout for the method is used.
      *
      * Defaults to no timeout.
      */
-    timeout?: number
+    callOptions?: number | CallOptions
+  ): Promise<CalledParentMethodResult<T>> {
+    // Validate the params before sending them.
+    if (!options.internal) {
+      try {
+        validateParams(options.method, options.params, this.#validators)
+      } catch (err) {
+        return Promise.reject(err)
+      }
+    }
+
+    const ready = this.#ready()
+    const response = ready
+      ? ready.then(() => this.#callParentMethod<T>(options, callOptions))
+      : this.#callParentMethod<T>(options, callOptions)
+
+    return options.internal
+      ? response
+      : response.then((response) => {
+          validateResult(options.method, response.result, this.#validators)
+          return response
+        })
+  }
+
+  /**
+   * Returns a promise that resolves once the allowed origins are loaded, the
+   * port is handed off and the secure channel is established, if any need
+   * waiting for.
+   */
+  #ready(): Promise<void> | undefined {
+    const originsLoaded = this.#loadOrigins()
+
+    return this.#secure || this.#messagePort
+      ? Promise.all([originsLoaded, this.#connect()]).then(() => undefined)
+      : originsLoaded
+  }
+
+  /**
+   * Load the allowed origins from the manifest, if any, once and again after
+   * the loaded manifest expires, so its origins are not trusted any longer
+   * than it is valid. The origins passed in are used if there is no valid
+   * manifest.
+   */
+  #loadOrigins(): Promise<void> | undefined {
+    const manifest = this.#manifest
+    if (!manifest) {
+      return
+    }
+
+    if (
+      !this.#originsLoaded ||
+      (this.#originsExpireAt !== undefined &&
+        this.#originsExpireAt <= Date.now())
+    ) {
+      this.#originsExpireAt = undefined
+      this.#originsLoaded = manifest.load().then((origins) => {
+        const allowedOrigins = origins || this.#allowedOrigins
+
+        this.#originsExpireAt = origins && manifest.manifest?.expiresAt
+        this.#dispatcher.setAllowedOrigins(allowedOrigins)
+      })
+    }
+
+    return this.#originsLoaded
+  }
+
+  #callParentMethod<T>(
+    options: CallParentMethodOptions,
+    callOptions?: number | CallOptions
   ): Promise<CalledParentMethodResult<T>> {
-    return callParentMethod<T>(options, this.#allowedOrigins, timeout)
+    const { timeout, signal } = toCallOptions(callOptions)
+    const defaultTimeout = options.internal
+      ? undefined
+      : this.#timeouts[options.method]
+
+    if (!this.#batch || options.internal || timeout || signal) {
+      return this.#dispatcher.callParentMethod<T>(options, {
+        timeout: timeout ?? defaultTimeout,
+        signal,
+      })
+    }
+
+    // Queue the call, flushing the queue once the current tick is done.
+    return new Promise((resolve, reject) => {
+      // Stop waiting once the default timeout passes, even if the call was
+      // sent in a batch that is still pending.
+      const timeoutId = defaultTimeout
+        ? setTimeout(
+            () =>
+              reject(
+                new CosmiframeTimeoutError(
+                  `Timed out after ${defaultTimeout}ms waiting for parent to respond.`
+                )
+              ),
+            defaultTimeout
+          )
+        : undefined
+
+      this.#queue.push({
+        options,
+        deadline: defaultTimeout ? Date.now() + defaultTimeout : undefined,
+        resolve: (result) => {
+          clearTimeout(timeoutId)
+          resolve(result)
+        },
+        reject: (err) => {
+          clearTimeout(timeoutId)
+          reject(err)
+        },
+      })
+      if (this.#queue.length === 1) {
+        queueMicrotask(() => this.#flushQueue())
+      }
+    })
+  }
+
+  /**
+   * Call many methods on the parent frame using a single message, returning a
+   * settled result for each in order. The parent executes them in parallel or
+   * in sequence, as requested. Parents that do not support batching (see
+   * `getCapabilities`) reject with a `CosmiframeMethodNotFoundError`. This
+   * should be used by the iframe.
+   */
+  async callParentMethods<T = any>(
+    calls: CallParentMethodOptions[],
+    mode: BatchMode = 'parallel',
+    /**
+     * The timeout in milliseconds or call options, such as an abort signal
+     * that cancels the whole batch.
+     *
+     * Defaults to no timeout.
+     */
+    callOptions?: number | CallOptions
+  ): Promise<PromiseSettledResult<T>[]> {
+    calls.forEach(({ method, params, internal }) => {
+      if (!internal) {
+        validateParams(method, params, this.#validators)
+      }
+    })
+
+    await this.#ready()
+
+    const { results } = await this.#callBatch(calls, mode, callOptions)
+    return results.map((msg, index) => {
+      if (msg.type === 'error') {
+        return { status: 'rejected', reason: deserializeError(msg) }
+      }
+
+      const { method, internal } = calls[index]
+      try {
+        if (!internal) {
+          validateResult(method, msg.response, this.#validators)
+        }
+        return { status: 'fulfilled', value: msg.response }
+      } catch (err) {
+        return { status: 'rejected', reason: err }
+      }
+    })
+  }
+
+  /**
+   * Send a batch request to the parent.
+   */
+  async #callBatch(
+    calls: CallParentMethodOptions[],
+    mode: BatchMode,
+    callOptions?: number | CallOptions
+  ): Promise<{ results: MethodCallResultMessageNoId[]; origin: string }> {
+    const params: BatchRequest = {
+      calls,
+      mode,
+    }
+
+    const { result, origin } = await this.#dispatcher.callParentMethod<
+      MethodCallResultMessageNoId[]
+    >(
+      {
+        internal: true,
+        method: InternalMethod.Batch,
+        params: [params],
+      },
+      callOptions
+    )
+
+    if (!Array.isArray(result) || result.length !== calls.length) {
+      throw new CosmiframeInvalidResponseError(
+        'Invalid results in batch response.'
+      )
+    }
+
+    return {
+      // Results in a batch have no IDs of their own, so validate them with
+      // their index instead.
+      results: result.map((msg, index) => {
+        try {
+          return validateResultMessage(
+            {
+              ...msg,
+              id: `${index}`,
+            },
+            this.#limits
+          )
+        } catch (err) {
+          return serializeError(err)
+        }
+      }),
+      origin,
+    }
+  }
+
+  /**
+   * Send the queued calls, in a batch if there are many and the parent
+   * supports it.
+   */
+  async #flushQueue() {
+    const queue = this.#queue
+    this.#queue = []
+
+    const sendIndividually = () =>
+      queue.forEach(({ options, resolve, reject, deadline }) =>
+        this.#dispatcher
+          .callParentMethod(options, {
+            // Stop waiting in the dispatcher too, notifying the parent.
+            timeout:
+              deadline === undefined
+                ? undefined
+                : Math.max(deadline - Date.now(), 1),
+          })
+          .then(resolve, reject)
+      )
+
+    if (queue.length === 1) {
+      return sendIndividually()
+    }
+
+    const batchSupported = await this.getCapabilities().then(
+      ({ features }) => features.includes(CosmiframeFeature.Batching),
+      () => false
+    )
+    if (!batchSupported) {
+      return sendIndividually()
+    }
+
+    try {
+      const { results, origin } = await this.#callBatch(
+        queue.map(({ options }) => options),
+        'parallel'
+      )
+
+      queue.forEach(({ resolve, reject }, index) => {
+        const msg = results[index]
+        if (msg?.type === 'success') {
+          resolve({
+            result: msg.response,
+            origin,
+            modifications: msg.modifications,
+          })
+        } else {
+          reject(
+            msg
+              ? deserializeError(msg)
+              : new CosmiframeError('Missing result in batch response.')
+          )
+        }
+      })
+    } catch (err) {
+      queue.forEach(({ reject }) => reject(err))
+    }
   }
 
   /**
    * Returns whether or not Cosmiframe is ready to use, meaning all of these are
    * true:
-   * - The current app is being used in an iframe.
+   * - The current app is being used in an iframe or a popup opened by the
+   *   parent, unless a transport is set.
    * - The parent window is running Cosmiframe.
    * - The parent window is one of the allowed origins.
    *
+   * If a secure channel is enabled, this establishes it, and a required one
+   * must be established for the parent to be ready.
+   *
    * If ready to use, this returns the origin of the parent frame that
    * acknowledged the request. If no origin is set for some reason, this returns
    * true. Otherwise, this returns false.
@@ -133,7 +634,7 @@ export class Cosmiframe {
    * This should be used by the iframe.
    */
   async isReady(): Promise<string | boolean> {
-    if (!isInIframe()) {
+    if (!this.#hasTransport && !isInIframe() && !isInPopup()) {
       return false
     }
 
@@ -151,9 +652,13 @@ export class Cosmiframe {
 
       return origin || result
     } catch (err) {
-      // If the parent has not responded, assume it is not ready. Otherwise,
-      // rethrow the error.
-      if (err instanceof CosmiframeTimeoutError) {
+      // If the parent has not responded or a required secure channel could
+      // not be established, assume it is not ready. Otherwise, rethrow the
+      // error.
+      if (
+        err instanceof CosmiframeTimeoutError ||
+        err instanceof CosmiframeSecureChannelError
+      ) {
         return false
       }
 
@@ -180,19 +685,256 @@ export class Cosmiframe {
     ).result
   }
 
+  /**
+   * Returns the parent's protocol version, supported features, and the target
+   * methods it exposes, performing a handshake the first time. Parents that do
+   * not support the handshake are reported as protocol version 0 with no
+   * features and unknown methods. This should be used by the iframe.
+   */
+  getCapabilities(): Promise<Capabilities> {
+    if (!this.#capabilities) {
+      this.#capabilities = this.callParentMethod<Capabilities>(
+        {
+          internal: true,
+          method: InternalMethod.Handshake,
+          params: [this.#getHandshakeInfo()],
+        },
+        // If the parent is listening, it should respond immediately, so a short
+        // timeout should suffice.
+        500
+      )
+        .then(({ result }) => result)
+        .catch((err) => {
+          // Parents that do not support the handshake do not know the method.
+          if (isUnknownInternalMethodError(err)) {
+            return {
+              protocolVersion: 0,
+              features: [],
+            }
+          }
+
+          // Try again next time.
+          this.#capabilities = undefined
+          throw err
+        })
+    }
+
+    return this.#capabilities
+  }
+
+  /**
+   * Whether or not messages are sent over a secure channel, which is
+   * established by `isReady` or the first request if enabled. This should be
+   * used by the iframe.
+   */
+  get secure(): boolean {
+    return !!this.#dispatcher.channel
+  }
+
+  /**
+   * Hand off the port and establish the secure channel once, if enabled,
+   * trying again next time if it fails.
+   */
+  #connect(): Promise<void> {
+    if (!this.#connection) {
+      this.#connection = (async () => {
+        await this.#loadOrigins()
+
+        // Ports cannot be sent over the secure channel, so hand off first.
+        if (this.#messagePort && !this.#dispatcher.channel) {
+          await this.#openPort()
+        }
+        if (this.#secure && !this.#dispatcher.channel) {
+          await this.#exchangeKeys()
+        }
+      })().catch((err) => {
+        this.#connection = undefined
+        throw err
+      })
+    }
+
+    return this.#connection
+  }
+
+  /**
+   * The protocol version, features and codec sent to the parent in the
+   * handshake.
+   */
+  #getHandshakeInfo(): HandshakeInfo {
+    return {
+      protocolVersion: PROTOCOL_VERSION,
+      features: [
+        CosmiframeFeature.Events,
+        CosmiframeFeature.Codec,
+        CosmiframeFeature.TypedErrors,
+        CosmiframeFeature.Batching,
+        CosmiframeFeature.Cancellation,
+        CosmiframeFeature.SecureChannel,
+        CosmiframeFeature.MessagePort,
+        CosmiframeFeature.SignerCapabilities,
+      ],
+      codec: this.#codec.version,
+    }
+  }
+
+  /**
+   * Perform the handshake to find the parent's origin, and hand off
+   * communication to a dedicated port sent only to that origin, unless the
+   * parent does not support ports.
+   */
+  async #openPort() {
+    let response: CalledParentMethodResult<Capabilities>
+    try {
+      response = await this.#dispatcher.callParentMethod<Capabilities>(
+        {
+          internal: true,
+          method: InternalMethod.Handshake,
+          params: [this.#getHandshakeInfo()],
+        },
+        // If the parent is listening, it should respond immediately, so a short
+        // timeout should suffice.
+        500
+      )
+    } catch (err) {
+      // Parents that do not support the handshake do not support ports.
+      if (isUnknownInternalMethodError(err)) {
+        return
+      }
+
+      throw err
+    }
+
+    const {
+      result: { features },
+      origin,
+    } = response
+    if (!features.includes(CosmiframeFeature.MessagePort)) {
+      return
+    }
+
+    await this.#dispatcher.openPort(origin, 500)
+  }
+
+  /**
+   * Perform an ECDH key exchange with the parent and send all messages over
+   * the resulting secure channel, unless the parent does not support it and
+   * falling back is allowed.
+   */
+  async #exchangeKeys() {
+    const keyPair = await CosmiframeSecureChannel.generateKeyPair()
+    const params: KeyExchangeRequest = {
+      publicKey: await CosmiframeSecureChannel.exportPublicKey(keyPair),
+    }
+
+    let response: CalledParentMethodResult<KeyExchangeResponse>
+    try {
+      response = await this.#dispatcher.callParentMethod<KeyExchangeResponse>(
+        {
+          internal: true,
+          method: InternalMethod.KeyExchange,
+          params: [params],
+        },
+        // If the parent is listening, it should respond immediately, so a short
+        // timeout should suffice.
+        500
+      )
+    } catch (err) {
+      // Parents that do not support secure channels do not know the method.
+      if (isUnknownInternalMethodError(err)) {
+        if (this.#secure === 'preferred') {
+          return
+        }
+
+        throw new CosmiframeSecureChannelError(
+          'Parent does not support secure channels.'
+        )
+      }
+
+      throw err
+    }
+
+    const {
+      result: { channel, publicKey },
+      origin,
+    } = response
+
+    this.#dispatcher.useChannel(
+      await CosmiframeSecureChannel.create({
+        id: channel,
+        origin,
+        role: 'iframe',
+        privateKey: keyPair.privateKey,
+        publicKey,
+      })
+    )
+  }
+
+  /**
+   * Subscribe to events emitted by the parent, such as account changes. Only
+   * events from allowed parent origins are accepted. Returns a function that
+   * can be called to unsubscribe. This should be used by the iframe.
+   *
+   * For example:
+   *
+   * cosmiframe.on(KEPLR_KEYSTORE_CHANGE_EVENT, () => refreshSigningClients())
+   */
+  on<T = any>(event: string, handler: EventHandler<T>): () => void {
+    return this.#dispatcher.on(event, handler)
+  }
+
+  /**
+   * Requests sent to the parent that have not yet been responded to, excluding
+   * calls waiting to be sent in the next batch. This should be used by the
+   * iframe.
+   */
+  get pendingRequests(): PendingRequest[] {
+    return this.#dispatcher.pendingRequests
+  }
+
+  /**
+   * Stop waiting for all pending requests, including calls waiting to be sent
+   * in the next batch and those made by signers from this client, rejecting
+   * them with a `CosmiframeCancelledError`. This should be used by the iframe.
+   */
+  cancelAll(reason = 'Request cancelled.') {
+    const queue = this.#queue
+    this.#queue = []
+    queue.forEach(({ reject }) => reject(new CosmiframeCancelledError(reason)))
+
+    this.#dispatcher.cancelAll(reason)
+  }
+
+  /**
+   * Cancel all pending requests, unsubscribe from all events, and stop
+   * listening for responses. Subsequent requests are rejected. This should be
+   * used by the iframe when the client is no longer needed.
+   */
+  destroy() {
+    this.cancelAll('Client was destroyed.')
+    this.#dispatcher.destroy()
+  }
+
   /**
    * Get client that conforms to Keplr's interface.
    */
-  getKeplrClient(): Keplr {
+  getKeplrClient(
+    /**
+     * Call options used by every request made by the client and its signers,
+     * such as an abort signal.
+     */
+    callOptions?: CallOptions
+  ): Keplr {
     const proxy = new Proxy(
       {
         version: 'cosmiframe',
         mode: 'extension',
         defaultOptions: {},
-        getOfflineSigner: this.getOfflineSigner.bind(this),
-        getOfflineSignerOnlyAmino: this.getOfflineSignerAmino.bind(this),
+        getOfflineSigner: (chainId) =>
+          this.getOfflineSigner(chainId, callOptions),
+        getOfflineSignerOnlyAmino: (chainId) =>
+          this.getOfflineSignerAmino(chainId, callOptions),
         getOfflineSignerAuto: (chainId) =>
-          Promise.resolve(this.getOfflineSigner(chainId)),
+          this.getOfflineSignerAuto(chainId, callOptions),
         // `getEnigmaUtils` is expected to return an object with functions;
         // override them with proxied functions instead.
         getEnigmaUtils: (chainId: string) => ({
@@ -216,10 +958,13 @@ export class Cosmiframe {
                       ...params
                     )
                   : // Proxy to parent if not defined above.
-                    this.callParentMethod<T>({
-                      method: name.toString(),
-                      params,
-                    }).then(({ result }) => result),
+                    this.callParentMethod<T>(
+                      {
+                        method: name.toString(),
+                        params,
+                      },
+                      callOptions
+                    ).then(({ result }) => result),
       }
     ) as Keplr
 
@@ -231,8 +976,15 @@ export class Cosmiframe {
    * forwards requests to the parent frame. The parent frame must be listening
    * (using the `listen` function). This should be used by the iframe.
    */
-  getOfflineSigner(chainId: string): CosmiframeEitherSigner {
-    return new CosmiframeEitherSigner(chainId, this.#allowedOrigins)
+  getOfflineSigner(
+    chainId: string,
+    options?: SignerOptions
+  ): CosmiframeEitherSigner {
+    return new CosmiframeEitherSigner(
+      chainId,
+      this,
+      this.#getSignerOptions(options)
+    )
   }
 
   /**
@@ -240,8 +992,15 @@ export class Cosmiframe {
    * parent frame must be listening (using the `listen` function). This should
    * be used by the iframe.
    */
-  getOfflineSignerAmino(chainId: string): CosmiframeAminoSigner {
-    return new CosmiframeAminoSigner(chainId, this.#allowedOrigins)
+  getOfflineSignerAmino(
+    chainId: string,
+    options?: SignerOptions
+  ): CosmiframeAminoSigner {
+    return new CosmiframeAminoSigner(
+      chainId,
+      this,
+      this.#getSignerOptions(options)
+    )
   }
 
   /**
@@ -249,185 +1008,235 @@ export class Cosmiframe {
    * The parent frame must be listening (using the `listen` function). This
    * should be used by the iframe.
    */
-  getOfflineSignerDirect(chainId: string): CosmiframeDirectSigner {
-    return new CosmiframeDirectSigner(chainId, this.#allowedOrigins)
+  getOfflineSignerDirect(
+    chainId: string,
+    options?: SignerOptions
+  ): CosmiframeDirectSigner {
+    return new CosmiframeDirectSigner(
+      chainId,
+      this,
+      this.#getSignerOptions(options)
+    )
   }
 
   /**
-   * Listen for requests from the provided iframe. This should be used by the
-   * parent. Returns a function that can be called to stop listening.
+   * Returns which signing methods the parent's key for a chain supports, such
+   * as whether it is a hardware key that only supports amino signing. This is
+   * cached until the parent emits a key change event. Parents that do not
+   * report signer capabilities are assumed to support amino and direct
+   * signing. This should be used by the iframe.
    */
-  static listen(options: ListenOptions): () => void {
-    const {
-      iframe,
-      target,
-      getOfflineSignerDirect,
-      getOfflineSignerAmino,
-      nonSignerOverrides,
-      signerOverrides,
-      origins: _origins,
-      metadata,
-    } = options
-
-    const origins = _origins?.length ? _origins : ['*']
-
-    const internalMethods: Record<InternalMethod, (...params: any[]) => any> = {
-      [InternalMethod.IsCosmiframe]: () => true,
-      [InternalMethod.GetMetadata]: () => metadata || null,
+  getSignerCapabilities(chainId: string): Promise<SignerCapabilities> {
+    this.#watchKeyChanges()
+
+    if (!this.#signerCapabilities.has(chainId)) {
+      const capabilities = this.callParentMethod<SignerCapabilities>({
+        internal: true,
+        method: InternalMethod.GetSignerCapabilities,
+        params: [chainId],
+      })
+        .then(({ result }) => {
+          if (
+            !result ||
+            typeof result !== 'object' ||
+            (['amino', 'direct', 'signArbitrary', 'hardware'] as const).some(
+              (key) => typeof result[key] !== 'boolean'
+            )
+          ) {
+            throw new CosmiframeInvalidResponseError(
+              'Invalid signer capabilities in response.'
+            )
+          }
+
+          return {
+            ...result,
+            chainId,
+          }
+        })
+        .catch((err) => {
+          // Parents that do not report signer capabilities do not know the
+          // method.
+          if (isUnknownInternalMethodError(err)) {
+            return {
+              chainId,
+              amino: true,
+              direct: true,
+              signArbitrary: false,
+              hardware: false,
+            }
+          }
+
+          // Try again next time.
+          if (this.#signerCapabilities.get(chainId) === capabilities) {
+            this.#signerCapabilities.delete(chainId)
+          }
+          throw err
+        })
+
+      this.#signerCapabilities.set(chainId, capabilities)
     }
 
-    const listener = async ({
-      source,
-      origin,
-      data,
-    }: MessageEvent<RequestMethodCallMessage | string>) => {
-      // Verify iframe window exists.
-      if (!iframe.contentWindow) {
-        throw new Error('Iframe contentWindow does not exist.')
-      }
+    return this.#signerCapabilities.get(chainId)!
+  }
 
-      // Verify event is coming from the iframe.
-      if (source !== iframe.contentWindow) {
-        return
-      }
+  /**
+   * Get the offline signer the parent's key for a chain supports: a direct
+   * signer if it supports direct signing, or an amino signer otherwise, such
+   * as for Ledger keys. Its accounts are cached until the parent emits a key
+   * change event. The parent frame must be listening (using the `listen`
+   * function). This should be used by the iframe.
+   */
+  async getOfflineSignerAuto(
+    chainId: string,
+    options?: SignerOptions
+  ): Promise<CosmiframeAminoSigner | CosmiframeDirectSigner> {
+    const { amino, direct } = await this.getSignerCapabilities(chainId)
+    if (!amino && !direct) {
+      throw new CosmiframeMethodNotFoundError(
+        `No signer for chain ID '${chainId}'.`
+      )
+    }
 
-      // Verify origin is allowed.
-      if (!isOriginAllowed(origins, origin)) {
-        return
-      }
+    return direct
+      ? new CosmiframeDirectSigner(
+          chainId,
+          this.#cachingCaller,
+          this.#getSignerOptions(options)
+        )
+      : new CosmiframeAminoSigner(
+          chainId,
+          this.#cachingCaller,
+          this.#getSignerOptions(options)
+        )
+  }
 
-      // Verify message contains required fields.
+  /**
+   * Returns the options for a signer, checking signed docs as configured for
+   * the client unless overridden.
+   */
+  #getSignerOptions(options?: SignerOptions): SignerOptions {
+    return {
+      integrity: this.#signDocIntegrity,
+      ...options,
+    }
+  }
+
+  /**
+   * Routes requests through the client, caching accounts by signer type and
+   * chain ID until the parent emits a key change event.
+   */
+  #cachingCaller: ParentMethodCaller = {
+    callParentMethod: <T = any>(
+      options: CallParentMethodOptions,
+      callOptions?: number | CallOptions
+    ): Promise<CalledParentMethodResult<T>> => {
       if (
-        !data ||
-        typeof data !== 'object' ||
-        !('id' in data) ||
-        !('method' in data) ||
-        !('params' in data)
+        options.method !== 'getAccounts' ||
+        options.internal ||
+        !options.chainId
       ) {
-        return
+        return this.callParentMethod<T>(options, callOptions)
       }
 
-      const { id, params, chainId, signType, internal } = data
-      let { method, signerType } = data
-
-      // Backwards compatibility.
-      signerType ||= signType
-      method = method.replace(/^signer:/, '')
+      this.#watchKeyChanges()
 
-      let msg: Omit<MethodCallResultMessage, 'id'> | undefined
-      try {
-        if (internal) {
-          if (
-            typeof internalMethods[method as keyof typeof internalMethods] !==
-            'function'
-          ) {
-            throw new Error(`Unknown internal method: ${method}`)
+      const key = `${options.signerType}/${options.chainId}`
+      if (!this.#accounts.has(key)) {
+        const accounts = this.callParentMethod<readonly AccountData[]>(
+          options,
+          callOptions
+        ).catch((err) => {
+          // Try again next time.
+          if (this.#accounts.get(key) === accounts) {
+            this.#accounts.delete(key)
           }
+          throw err
+        })
 
-          const response = await (
-            internalMethods[method as keyof typeof internalMethods] as (
-              ...params: any[]
-            ) => any
-          )(...params)
-
-          msg = {
-            type: 'success',
-            response,
-          }
-        } else if (signerType) {
-          if (!chainId) {
-            throw new Error('Missing chainId in signer message request')
-          }
-
-          // Try signer override method.
-          const overrides =
-            typeof signerOverrides === 'function'
-              ? await signerOverrides(chainId)
-              : signerOverrides
-          if (overrides && method in overrides) {
-            const handledMsg = processOverrideHandler(
-              await overrides[method](...params)
-            )
-            if (handledMsg) {
-              msg = handledMsg
-            }
-          }
+        this.#accounts.set(key, accounts)
+      }
 
-          // If override does not handle it, call the original method.
-          if (!msg) {
-            const signer =
-              signerType === 'direct'
-                ? await getOfflineSignerDirect(chainId)
-                : await getOfflineSignerAmino(chainId)
-            if (
-              !(method in signer) ||
-              typeof signer[method as keyof typeof signer] !== 'function'
-            ) {
-              throw new Error(
-                `No ${signerType} signer method '${method}' for chain ID '${chainId}'.`
-              )
-            }
+      return this.#accounts.get(key)! as Promise<CalledParentMethodResult<T>>
+    },
+  }
 
-            const response = await (
-              signer[method as keyof typeof signer] as (...params: any[]) => any
-            )(...params)
+  /**
+   * Clear cached signer capabilities and accounts whenever the parent emits a
+   * key change event.
+   */
+  #watchKeyChanges() {
+    if (!this.#unwatchKeyChanges) {
+      this.#unwatchKeyChanges = this.on(KEPLR_KEYSTORE_CHANGE_EVENT, () => {
+        this.#signerCapabilities.clear()
+        this.#accounts.clear()
+      })
+    }
+  }
 
-            msg = {
-              type: 'success',
-              response,
-            }
-          }
-        } else {
-          // Try override method.
-          const overrides =
-            typeof nonSignerOverrides === 'function'
-              ? await nonSignerOverrides()
-              : nonSignerOverrides
-
-          if (overrides && method in overrides) {
-            const handledMsg = processOverrideHandler(
-              await overrides[method](...params)
-            )
-            if (handledMsg) {
-              msg = handledMsg
-            }
-          }
+  /**
+   * Listen for requests from the provided iframe on behalf of it, relaying
+   * them to our parent with the iframe's origin appended to their provenance,
+   * so an embedded app can pass wallet access down to apps it embeds. Events
+   * from the parent are passed down to the iframe. Returns a handle that can
+   * be called to stop listening and used to emit events to the iframe. This
+   * should be used by an iframe that embeds its own iframe.
+   */
+  relay({
+    iframe,
+    events = [KEPLR_KEYSTORE_CHANGE_EVENT],
+    ...options
+  }: RelayOptions): ListenHandle {
+    const host = new CosmiframeHost({
+      ...options,
+      // Requests not handled by overrides are relayed, so these are unused.
+      target: {},
+      getOfflineSignerDirect: (chainId) => this.getOfflineSignerDirect(chainId),
+      getOfflineSignerAmino: (chainId) => this.getOfflineSignerAmino(chainId),
+      relay: this,
+    })
+    host.register(iframe)
 
-          // If override does not handle it, call the original method.
-          if (!msg) {
-            if (!(method in target) || typeof target[method] !== 'function') {
-              throw new Error(`No method '${method}' on target.`)
-            }
+    const unsubscribes = events.map((event) =>
+      this.on(event, (payload) => host.emit(event, payload, iframe))
+    )
 
-            const response = await target[method](...params)
+    const stop = () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      host.destroy()
+    }
+    const emit = <T = any>(event: string, payload?: T) =>
+      host.emit(event, payload, iframe)
 
-            msg = {
-              type: 'success',
-              response,
-            }
-          }
-        }
-      } catch (err) {
-        msg = {
-          type: 'error',
-          error: err instanceof Error ? err.message : `${err}`,
-        }
-      }
+    // Return a handle that stops relaying when called.
+    return Object.assign(stop, { stop, emit })
+  }
 
-      // Send back to same origin.
-      iframe.contentWindow?.postMessage(
-        {
-          ...msg,
-          id,
-        },
-        origin
+  /**
+   * Listen for requests from the provided iframe, popup or transport. This
+   * should be used by the parent. Returns a handle that can be called to stop
+   * listening and used to emit events to the iframe.
+   */
+  static listen<TTarget extends object = Record<string, any>>({
+    iframe,
+    popup,
+    transport,
+    ...options
+  }: ListenOptions<TTarget>): ListenHandle {
+    const peer = iframe || popup || transport
+    if (!peer) {
+      throw new Error(
+        'You must provide an iframe, popup or transport to listen to.'
       )
     }
 
-    // Listen.
-    window.addEventListener('message', listener)
+    const host = new CosmiframeHost(options)
+    host.register(peer)
+
+    const stop = () => host.destroy()
+    const emit = <T = any>(event: string, payload?: T) =>
+      host.emit(event, payload, peer)
 
-    // Return a function to stop listening.
-    return () => window.removeEventListener('message', listener)
+    // Return a handle that stops listening when called.
+    return Object.assign(stop, { stop, emit })
   }
 }
@@ -0,0 +1,199 @@
+import { fromBase64, toBase64 } from './utils'
+
+/**
+ * Encodes values sent between the iframe and parent into values that survive
+ * `postMessage` intact, and decodes them on the other side.
+ */
+export type CosmiframeCodec = {
+  /**
+   * Identifies the codec. Values are only decoded by a codec with the same
+   * version. Otherwise, the raw values are used.
+   */
+  version: string
+  encode: (value: unknown) => unknown
+  decode: (value: unknown) => unknown
+}
+
+/**
+ * A type of value that a codec tags when encoding and restores when decoding.
+ * Nested values are encoded and decoded using the provided functions.
+ */
+export type CodecType<T = any> = {
+  /**
+   * The tag identifying the type. This must be unique within a codec.
+   */
+  name: string
+  test: (value: unknown) => boolean
+  encode: (value: T, encode: (value: unknown) => unknown) => unknown
+  decode: (value: any, decode: (value: unknown) => unknown) => T
+}
+
+export type CreateCodecOptions = {
+  /**
+   * The version of the codec. Both the iframe and parent must use the same
+   * version for values to be decoded. Defaults to `CODEC_VERSION`, which
+   * should be changed when providing custom types.
+   */
+  version?: string
+  /**
+   * Additional types to tag, checked before the built-in types.
+   */
+  types?: CodecType[]
+  /**
+   * The `Long` implementation used to restore `Long` values. If not provided,
+   * they are restored as `bigint`s.
+   */
+  Long?: {
+    fromBits: (low: number, high: number, unsigned?: boolean) => unknown
+  }
+}
+
+/**
+ * The version of the built-in codec.
+ */
+export const CODEC_VERSION = 'cosmiframe-codec/1'
+
+/**
+ * The key of the tag that identifies an encoded value's type.
+ */
+const TAG = '__cosmiframe__'
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Create a codec that tags and restores `Uint8Array`, `bigint`, `Long`, `Date`
+ * and `Map` values, in addition to any custom types.
+ */
+export const createCodec = ({
+  version = CODEC_VERSION,
+  types = [],
+  Long,
+}: CreateCodecOptions = {}): CosmiframeCodec => {
+  const allTypes: CodecType[] = [
+    ...types,
+    {
+      name: 'Uint8Array',
+      test: (value) => value instanceof Uint8Array,
+      encode: (value: Uint8Array) => toBase64(value),
+      decode: (value: string) => fromBase64(value),
+    },
+    {
+      name: 'bigint',
+      test: (value) => typeof value === 'bigint',
+      encode: (value: bigint) => value.toString(),
+      decode: (value: string) => BigInt(value),
+    },
+    {
+      name: 'Long',
+      test: (value) =>
+        !!value &&
+        typeof value === 'object' &&
+        (value as { __isLong__?: boolean }).__isLong__ === true,
+      encode: ({
+        low,
+        high,
+        unsigned,
+      }: {
+        low: number
+        high: number
+        unsigned: boolean
+      }) => ({ low, high, unsigned }),
+      decode: ({
+        low,
+        high,
+        unsigned,
+      }: {
+        low: number
+        high: number
+        unsigned: boolean
+      }) => {
+        if (Long) {
+          return Long.fromBits(low, high, unsigned)
+        }
+
+        const bits = (BigInt(high >>> 0) << BigInt(32)) | BigInt(low >>> 0)
+        return !unsigned && high < 0 ? bits - (BigInt(1) << BigInt(64)) : bits
+      },
+    },
+    {
+      name: 'Date',
+      test: (value) => value instanceof Date,
+      encode: (value: Date) => value.getTime(),
+      decode: (value: number) => new Date(value),
+    },
+    {
+      name: 'Map',
+      test: (value) => value instanceof Map,
+      encode: (value: Map<unknown, unknown>, encode) =>
+        [...value.entries()].map(([key, entry]) => [
+          encode(key),
+          encode(entry),
+        ]),
+      decode: (value: [unknown, unknown][], decode) =>
+        new Map(value.map(([key, entry]) => [decode(key), decode(entry)])),
+    },
+  ]
+
+  const encode = (value: unknown): unknown => {
+    const type = allTypes.find(({ test }) => test(value))
+    if (type) {
+      return {
+        [TAG]: type.name,
+        value: type.encode(value, encode),
+      }
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(encode)
+    }
+
+    // Only recurse into plain objects. Other objects are left to
+    // `postMessage`'s structured clone.
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, encode(entry)])
+      )
+    }
+
+    return value
+  }
+
+  const decode = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(decode)
+    }
+
+    if (isPlainObject(value)) {
+      if (typeof value[TAG] === 'string') {
+        const type = allTypes.find(({ name }) => name === value[TAG])
+        if (type) {
+          return type.decode(value.value, decode)
+        }
+      }
+
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, decode(entry)])
+      )
+    }
+
+    return value
+  }
+
+  return {
+    version,
+    encode,
+    decode,
+  }
+}
+
+/**
+ * The built-in codec used by default.
+ */
+export const defaultCodec = createCodec()
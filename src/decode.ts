@@ -0,0 +1,210 @@
+import { StdSignDoc } from '@cosmjs/amino'
+import { DirectSignResponse } from '@cosmjs/proto-signing'
+import { AuthInfo, TxBody } from 'cosmjs-types/cosmos/tx/v1beta1/tx'
+
+import { makeArbitrarySignDoc } from './arbitrary'
+import {
+  DecodedMessage,
+  DecodedSignDoc,
+  HostOptions,
+  RequestMethodCallMessage,
+} from './types'
+
+/**
+ * Options used to decode sign docs.
+ */
+export type DecodeOptions = Pick<HostOptions, 'registry' | 'aminoTypes'>
+
+/**
+ * Convert an integer that may be a number, string, bigint, or Long (including
+ * one that lost its prototype when cloned) into a string.
+ */
+const integerToString = (value: unknown): string => {
+  if (
+    value &&
+    typeof value === 'object' &&
+    'low' in value &&
+    'high' in value &&
+    typeof value.low === 'number' &&
+    typeof value.high === 'number'
+  ) {
+    const unsigned = 'unsigned' in value && !!value.unsigned
+    const bits =
+      (BigInt(value.high >>> 0) << BigInt(32)) | BigInt(value.low >>> 0)
+    return (
+      !unsigned && value.high < 0 ? bits - (BigInt(1) << BigInt(64)) : bits
+    ).toString()
+  }
+
+  return `${value ?? 0}`
+}
+
+/**
+ * Decode a direct sign doc.
+ */
+export const decodeDirectSignDoc = (
+  signerAddress: string,
+  {
+    bodyBytes,
+    authInfoBytes,
+    chainId,
+    accountNumber,
+  }: DirectSignResponse['signed'],
+  { registry }: DecodeOptions = {}
+): DecodedSignDoc => {
+  const { messages, memo } = TxBody.decode(bodyBytes)
+  const { fee, signerInfos } = AuthInfo.decode(authInfoBytes)
+
+  return {
+    signerType: 'direct',
+    signerAddress,
+    chainId,
+    accountNumber: integerToString(accountNumber),
+    sequence: integerToString(signerInfos[0]?.sequence),
+    memo,
+    fee: {
+      amount: fee?.amount || [],
+      gas: integerToString(fee?.gasLimit),
+      granter: fee?.granter || undefined,
+      payer: fee?.payer || undefined,
+    },
+    messages: messages.map(({ typeUrl, value }): DecodedMessage => {
+      if (registry?.lookupType(typeUrl)) {
+        try {
+          return {
+            typeUrl,
+            value: registry.decode({ typeUrl, value }),
+          }
+        } catch {
+          // Leave encoded if decoding fails.
+        }
+      }
+
+      return {
+        typeUrl,
+        value,
+      }
+    }),
+  }
+}
+
+/**
+ * Decode an amino sign doc.
+ */
+export const decodeAminoSignDoc = (
+  signerAddress: string,
+  { chain_id, account_number, sequence, fee, msgs, memo }: StdSignDoc,
+  { aminoTypes }: DecodeOptions = {}
+): DecodedSignDoc => ({
+  signerType: 'amino',
+  signerAddress,
+  chainId: chain_id,
+  accountNumber: integerToString(account_number),
+  sequence: integerToString(sequence),
+  memo,
+  fee: {
+    amount: [...fee.amount],
+    gas: fee.gas,
+    granter: fee.granter,
+    payer: fee.payer,
+  },
+  messages: msgs.map((msg): DecodedMessage => {
+    if (aminoTypes) {
+      try {
+        const { typeUrl, value } = aminoTypes.fromAmino(msg)
+        return {
+          typeUrl,
+          aminoType: msg.type,
+          value,
+        }
+      } catch {
+        // Leave as amino if no converter exists.
+      }
+    }
+
+    return {
+      aminoType: msg.type,
+      value: msg.value,
+    }
+  }),
+})
+
+/**
+ * Decode the sign doc of a sign request, or return undefined if the request is
+ * not a sign request. Both signer requests (`signDirect(signerAddress,
+ * signDoc)`) and Keplr-style target requests (`signDirect(chainId,
+ * signerAddress, signDoc)`) are supported. Arbitrary data signed with
+ * `signArbitrary` is decoded as its ADR-036 amino sign doc.
+ */
+export const decodeSignRequest = (
+  {
+    method,
+    params,
+    signerType,
+  }: Pick<RequestMethodCallMessage, 'method' | 'params' | 'signerType'>,
+  options?: DecodeOptions
+): DecodedSignDoc | undefined => {
+  const [signerAddress, signDoc] = signerType ? params : params.slice(1)
+
+  if (method === 'signArbitrary') {
+    return typeof signerAddress === 'string' &&
+      (typeof signDoc === 'string' || signDoc instanceof Uint8Array)
+      ? decodeAminoSignDoc(
+          signerAddress,
+          makeArbitrarySignDoc(signerAddress, signDoc),
+          options
+        )
+      : undefined
+  }
+
+  if (
+    typeof signerAddress !== 'string' ||
+    !signDoc ||
+    typeof signDoc !== 'object'
+  ) {
+    return
+  }
+
+  if (method === 'signDirect') {
+    return decodeDirectSignDoc(signerAddress, signDoc, options)
+  }
+
+  if (method === 'signAmino') {
+    return decodeAminoSignDoc(signerAddress, signDoc, options)
+  }
+}
+
+/**
+ * Decode the doc signed in response to a `signDirect` or `signAmino` request,
+ * or return undefined if the response has no signed doc that can be decoded.
+ */
+export const decodeSignResponse = (
+  method: string,
+  signerAddress: string,
+  response: unknown,
+  options?: DecodeOptions
+): DecodedSignDoc | undefined => {
+  const signed =
+    response && typeof response === 'object' && 'signed' in response
+      ? response.signed
+      : undefined
+  if (!signed || typeof signed !== 'object') {
+    return
+  }
+
+  try {
+    if (method === 'signDirect') {
+      return decodeDirectSignDoc(
+        signerAddress,
+        signed as DirectSignResponse['signed'],
+        options
+      )
+    }
+
+    if (method === 'signAmino') {
+      return decodeAminoSignDoc(signerAddress, signed as StdSignDoc, options)
+    }
+  } catch {
+    // Ignore docs that cannot be decoded.
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { defaultCodec } from './codec'
+import { CosmiframeDispatcher } from './dispatcher'
+import { createMemoryTransports } from './transport'
+import { RequestMethodCallMessage } from './types'
+
+describe('CosmiframeDispatcher', () => {
+  it('calls every event handler even if one throws', async () => {
+    const { iframe, parent } = createMemoryTransports({
+      iframeOrigin: 'https://app.example',
+      parentOrigin: 'https://parent.example',
+    })
+    const onError = vi.fn()
+    const dispatcher = new CosmiframeDispatcher(
+      ['https://parent.example'],
+      undefined,
+      undefined,
+      iframe,
+      onError
+    )
+
+    const handler = vi.fn()
+    dispatcher.on('event', () => {
+      throw new Error('Handler failed.')
+    })
+    dispatcher.on('event', handler)
+
+    parent.postMessage({ type: 'event', event: 'event', payload: 1 }, '*')
+
+    await vi.waitFor(() =>
+      expect(handler).toHaveBeenCalledWith(1, 'https://parent.example')
+    )
+    expect(onError).toHaveBeenCalledOnce()
+    expect(onError).toHaveBeenCalledWith(
+      "Failed to handle event 'event'.",
+      new Error('Handler failed.')
+    )
+
+    dispatcher.destroy()
+  })
+
+  it('only sends raw params until the parent responds with the codec', async () => {
+    const { iframe, parent } = createMemoryTransports({
+      iframeOrigin: 'https://app.example',
+      parentOrigin: 'https://parent.example',
+    })
+    const dispatcher = new CosmiframeDispatcher(
+      ['https://parent.example'],
+      defaultCodec,
+      undefined,
+      iframe
+    )
+
+    const requests: RequestMethodCallMessage[] = []
+    parent.listen(({ data }) => {
+      const request = data as RequestMethodCallMessage
+      requests.push(request)
+      parent.postMessage(
+        {
+          id: request.id,
+          type: 'success',
+          response: defaultCodec.encode(5n),
+          codec: defaultCodec.version,
+        },
+        '*'
+      )
+    })
+
+    const message = { method: 'getKey', params: ['juno-1'] }
+    await expect(dispatcher.callParentMethod(message)).resolves.toMatchObject({
+      result: 5n,
+    })
+    await dispatcher.callParentMethod(message)
+
+    expect(requests).toMatchObject([
+      {
+        params: ['juno-1'],
+        codec: defaultCodec.version,
+        encodedParams: ['juno-1'],
+      },
+      {
+        params: [],
+        codec: defaultCodec.version,
+        encodedParams: ['juno-1'],
+      },
+    ])
+
+    dispatcher.destroy()
+  })
+})
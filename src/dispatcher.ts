@@ -0,0 +1,570 @@
+import { v4 as uuidv4 } from 'uuid'
+
+import { CosmiframeSecureChannel, isSecureMessage } from './channel'
+import { CosmiframeCodec } from './codec'
+import {
+  CosmiframeCancelledError,
+  CosmiframeInvalidResponseError,
+  CosmiframeTimeoutError,
+  deserializeError,
+} from './error'
+import { createMessagePortTransport, createWindowTransport } from './transport'
+import {
+  CallOptions,
+  CallParentMethodOptions,
+  CalledParentMethodResult,
+  CancelRequestMessage,
+  CosmiframeTransport,
+  ErrorHandler,
+  EventHandler,
+  InternalMethod,
+  MessageLimits,
+  MethodCallResultMessage,
+  Origin,
+  ParentMethodCaller,
+  PendingRequest,
+  RequestMethodCallMessage,
+  TransportMessage,
+} from './types'
+import { getHostWindow, isOriginAllowed, toCallOptions } from './utils'
+import { validateResultMessage } from './validate'
+
+/**
+ * How a message is posted to the parent.
+ */
+type PostOptions = {
+  /**
+   * The origin the message may be delivered to. Defaults to any origin, or the
+   * secure channel's origin once established.
+   */
+  targetOrigin?: string
+  /**
+   * Objects to transfer with the message, such as ports.
+   */
+  transfer?: Transferable[]
+}
+
+/**
+ * Sends requests to the parent and dispatches its responses and events using a
+ * single listener, only accepting messages from parents of allowed origins.
+ * Messages are sent over a transport, which defaults to `postMessage` on
+ * `window.parent`, or `window.opener` in a popup. This should be used by the
+ * iframe.
+ */
+export class CosmiframeDispatcher {
+  /**
+   * Parent origins we are allowed to communicate with.
+   */
+  #allowedOrigins: Origin[]
+
+  /**
+   * Codec used to encode params and decode results.
+   */
+  #codec?: CosmiframeCodec
+
+  /**
+   * Whether or not the parent has responded with the codec, in which case
+   * requests no longer include the raw params.
+   */
+  #codecNegotiated = false
+
+  /**
+   * Limits on responses from the parent.
+   */
+  #limits?: MessageLimits
+
+  /**
+   * Requests waiting for a response, by ID.
+   */
+  #pending = new Map<
+    string,
+    PendingRequest & {
+      resolve: (result: CalledParentMethodResult<any>) => void
+      reject: (err: unknown) => void
+      timeoutId?: ReturnType<typeof setTimeout>
+      signal?: AbortSignal
+      onAbort: () => void
+    }
+  >()
+
+  /**
+   * Event handlers, by event name.
+   */
+  #eventHandlers = new Map<string, Set<EventHandler>>()
+
+  /**
+   * The secure channel messages are sent and accepted over, once established.
+   */
+  #channel?: CosmiframeSecureChannel
+
+  /**
+   * The transport messages are sent and received over.
+   */
+  #transport: CosmiframeTransport
+
+  /**
+   * Stops listening to the transport, if listening.
+   */
+  #stopListening?: () => void
+
+  /**
+   * Called with errors thrown by event handlers.
+   */
+  #onError?: ErrorHandler
+
+  #destroyed = false
+
+  constructor(
+    allowedParentOrigins: Origin[],
+    codec?: CosmiframeCodec,
+    limits?: MessageLimits,
+    transport: CosmiframeTransport = createWindowTransport(getHostWindow),
+    onError?: ErrorHandler
+  ) {
+    this.#allowedOrigins = allowedParentOrigins
+    this.#codec = codec
+    this.#limits = limits
+    this.#transport = transport
+    this.#onError = onError
+  }
+
+  /**
+   * Requests sent to the parent that have not yet been responded to.
+   */
+  get pendingRequests(): PendingRequest[] {
+    return [...this.#pending.values()].map(
+      ({ id, method, chainId, signerType, internal, sentAt }) => ({
+        id,
+        method,
+        chainId,
+        signerType,
+        internal,
+        sentAt,
+      })
+    )
+  }
+
+  /**
+   * Replace the parent origins we are allowed to communicate with.
+   */
+  setAllowedOrigins(allowedParentOrigins: Origin[]) {
+    this.#allowedOrigins = allowedParentOrigins
+  }
+
+  /**
+   * The secure channel messages are sent and accepted over, if established.
+   */
+  get channel(): CosmiframeSecureChannel | undefined {
+    return this.#channel
+  }
+
+  /**
+   * Send and accept messages only over the secure channel from now on.
+   * Requests are only sent to the channel's origin.
+   */
+  useChannel(channel: CosmiframeSecureChannel) {
+    this.#channel = channel
+  }
+
+  /**
+   * Send and receive messages over a different transport from now on. Responses
+   * to requests sent over the previous transport are no longer received.
+   */
+  useTransport(transport: CosmiframeTransport) {
+    const listening = !!this.#stopListening
+    this.#stopListening?.()
+    this.#stopListening = undefined
+
+    this.#transport = transport
+    if (listening && !this.#destroyed) {
+      this.#listen()
+    }
+  }
+
+  /**
+   * Hand off communication with the parent at the origin to a dedicated
+   * `MessageChannel`, transferring one of its ports to the parent so no other
+   * window can observe or send messages. This must be done before a secure
+   * channel is established, since ports cannot be encrypted. Rejects with the
+   * parent's error if it does not accept the port, in which case the current
+   * transport is kept.
+   */
+  async openPort(origin: string, timeout?: number) {
+    if (this.#channel) {
+      throw new Error(
+        'Ports must be opened before establishing a secure channel.'
+      )
+    }
+
+    const { port1, port2 } = new MessageChannel()
+    try {
+      await this.#request(
+        {
+          internal: true,
+          method: InternalMethod.OpenPort,
+          params: [port2],
+        },
+        timeout,
+        {
+          targetOrigin: origin,
+          transfer: [port2],
+        }
+      )
+    } catch (err) {
+      port1.close()
+      throw err
+    }
+
+    this.useTransport(createMessagePortTransport(port1, origin))
+  }
+
+  /**
+   * Send a request to the parent, returning a promise that resolves with the
+   * result on success or rejects with a `CosmiframeError` rehydrated from the
+   * parent's error. If the request times out or is aborted, the parent is
+   * notified so it can dismiss any pending approval UI.
+   */
+  callParentMethod<T = any>(
+    message: CallParentMethodOptions,
+    /**
+     * The timeout in milliseconds or call options, such as an abort signal.
+     *
+     * Defaults to no timeout.
+     */
+    callOptions?: number | CallOptions
+  ): Promise<CalledParentMethodResult<T>> {
+    return this.#request(message, callOptions)
+  }
+
+  #request<T>(
+    message: CallParentMethodOptions,
+    callOptions?: number | CallOptions,
+    postOptions?: PostOptions
+  ): Promise<CalledParentMethodResult<T>> {
+    const { timeout, signal } = toCallOptions(callOptions)
+
+    return new Promise<CalledParentMethodResult<T>>((resolve, reject) => {
+      if (this.#destroyed) {
+        reject(new CosmiframeCancelledError('Dispatcher was destroyed.'))
+        return
+      }
+
+      if (signal?.aborted) {
+        reject(new CosmiframeCancelledError())
+        return
+      }
+
+      this.#listen()
+
+      const id = uuidv4()
+      const data: RequestMethodCallMessage = {
+        ...message,
+        id,
+        ...(this.#codec && {
+          // Only send the raw params until the parent supports the codec.
+          ...(this.#codecNegotiated && { params: [] }),
+          codec: this.#codec.version,
+          encodedParams: this.#codec.encode(message.params) as unknown[],
+        }),
+      }
+
+      const onAbort = () => this.#cancel(id, new CosmiframeCancelledError())
+
+      this.#pending.set(id, {
+        id,
+        method: message.method,
+        chainId: message.chainId,
+        signerType: message.signerType,
+        internal: message.internal,
+        sentAt: Date.now(),
+        resolve,
+        reject,
+        // If timeout is set, cancel the request if the parent has not
+        // responded.
+        timeoutId: timeout
+          ? setTimeout(
+              () =>
+                this.#cancel(
+                  id,
+                  new CosmiframeTimeoutError(
+                    `Timed out after ${timeout}ms waiting for parent to respond.`
+                  )
+                ),
+              timeout
+            )
+          : undefined,
+        signal,
+        onAbort,
+      })
+
+      signal?.addEventListener('abort', onAbort)
+
+      this.#post(data, postOptions).catch((err) => {
+        // If fails to send, stop waiting and reject.
+        if (this.#settle(id)) {
+          reject(err)
+        }
+      })
+    })
+  }
+
+  /**
+   * Subscribe to events emitted by the parent. Returns a function that can be
+   * called to unsubscribe.
+   */
+  on<T = any>(event: string, handler: EventHandler<T>): () => void {
+    if (this.#destroyed) {
+      return () => {}
+    }
+
+    this.#listen()
+
+    if (!this.#eventHandlers.has(event)) {
+      this.#eventHandlers.set(event, new Set())
+    }
+    this.#eventHandlers.get(event)!.add(handler)
+
+    return () => this.#eventHandlers.get(event)?.delete(handler)
+  }
+
+  /**
+   * Stop waiting for all pending requests, rejecting them with a
+   * `CosmiframeCancelledError`.
+   */
+  cancelAll(reason = 'Request cancelled.') {
+    for (const id of [...this.#pending.keys()]) {
+      this.#cancel(id, new CosmiframeCancelledError(reason))
+    }
+  }
+
+  /**
+   * Cancel all pending requests, unsubscribe from all events, and stop
+   * listening. Subsequent requests are rejected.
+   */
+  destroy() {
+    this.#destroyed = true
+    this.cancelAll('Dispatcher was destroyed.')
+    this.#eventHandlers.clear()
+
+    this.#stopListening?.()
+    this.#stopListening = undefined
+  }
+
+  /**
+   * Stop waiting for a pending request, returning it if it was pending.
+   */
+  #settle(id: string) {
+    const pending = this.#pending.get(id)
+    if (!pending) {
+      return
+    }
+
+    this.#pending.delete(id)
+    if (pending.timeoutId !== undefined) {
+      clearTimeout(pending.timeoutId)
+    }
+    pending.signal?.removeEventListener('abort', pending.onAbort)
+
+    return pending
+  }
+
+  /**
+   * Stop waiting for a pending request, rejecting it and notifying the parent.
+   */
+  #cancel(id: string, error: Error) {
+    const pending = this.#settle(id)
+    if (!pending) {
+      return
+    }
+
+    pending.reject(error)
+
+    const message: CancelRequestMessage = {
+      type: 'cancel',
+      id,
+    }
+    this.#post(message).catch(() => {
+      // Nothing to do if the parent cannot be notified.
+    })
+  }
+
+  /**
+   * Send a message to the parent, encrypting it if a secure channel is
+   * established.
+   */
+  async #post(
+    message: RequestMethodCallMessage | CancelRequestMessage,
+    { targetOrigin = '*', transfer }: PostOptions = {}
+  ) {
+    if (this.#channel) {
+      this.#transport.postMessage(
+        await this.#channel.seal(message),
+        this.#channel.origin
+      )
+    } else {
+      // Send the message to our parent of any origin unless told otherwise.
+      // This is safe because we will only accept responses back from parents
+      // of allowed origins.
+      this.#transport.postMessage(message, targetOrigin, transfer)
+    }
+  }
+
+  #listen() {
+    if (!this.#stopListening) {
+      this.#stopListening = this.#transport.listen(this.#listener)
+    }
+  }
+
+  #listener = async ({ origin, data }: TransportMessage) => {
+    // Verify we are receiving a message from an allowed parent. The transport
+    // only delivers messages from the parent.
+    if (
+      !isOriginAllowed(this.#allowedOrigins, origin) ||
+      !data ||
+      typeof data !== 'object'
+    ) {
+      return
+    }
+
+    // Once a secure channel is established, only accept messages sent over it.
+    if (this.#channel) {
+      if (
+        !isSecureMessage(data) ||
+        data.channel !== this.#channel.id ||
+        origin !== this.#channel.origin
+      ) {
+        return
+      }
+
+      try {
+        data = await this.#channel.open(data)
+      } catch {
+        // Ignore messages that cannot be decrypted or were replayed.
+        return
+      }
+
+      if (!data || typeof data !== 'object') {
+        return
+      }
+    }
+
+    if (data.type === 'event') {
+      if (typeof data.event === 'string') {
+        let payload
+        try {
+          payload =
+            this.#codec && data.codec === this.#codec.version
+              ? this.#codec.decode(data.payload)
+              : data.payload
+        } catch {
+          // Ignore events whose payload cannot be decoded.
+          return
+        }
+
+        // Call every handler even if one throws.
+        this.#eventHandlers.get(data.event)?.forEach((handler) => {
+          try {
+            handler(payload, origin)
+          } catch (err) {
+            this.#onError?.(`Failed to handle event '${data.event}'.`, err)
+          }
+        })
+      }
+      return
+    }
+
+    // Verify we are receiving a response for a pending request.
+    const pending = typeof data.id === 'string' && this.#settle(data.id)
+    if (!pending) {
+      return
+    }
+
+    // Reject malformed responses instead of resolving them.
+    let response: MethodCallResultMessage
+    try {
+      response = validateResultMessage(data, this.#limits)
+    } catch (err) {
+      pending.reject(err)
+      return
+    }
+
+    if (response.type === 'success') {
+      const codec =
+        response.codec === this.#codec?.version ? this.#codec : undefined
+      let result
+      try {
+        result = codec ? codec.decode(response.response) : response.response
+      } catch (err) {
+        pending.reject(
+          new CosmiframeInvalidResponseError(
+            `Invalid encoded response: ${
+              err instanceof Error ? err.message : err
+            }`
+          )
+        )
+        return
+      }
+
+      // The parent supports the codec if it encoded the response with it.
+      if (codec) {
+        this.#codecNegotiated = true
+      }
+
+      pending.resolve({
+        result,
+        origin,
+        modifications: response.modifications,
+      })
+    } else {
+      pending.reject(deserializeError(response))
+    }
+  }
+}
+
+/**
+ * Create a caller that sends each request with its own dispatcher, which stops
+ * listening once the request settles. This is used by signers created with
+ * parent origins instead of a client.
+ */
+export const createParentMethodCaller = (
+  allowedParentOrigins: Origin[],
+  codec?: CosmiframeCodec
+): ParentMethodCaller => ({
+  callParentMethod: async <T = any>(
+    message: CallParentMethodOptions,
+    callOptions?: number | CallOptions
+  ) => {
+    const dispatcher = new CosmiframeDispatcher(allowedParentOrigins, codec)
+    try {
+      return await dispatcher.callParentMethod<T>(message, callOptions)
+    } finally {
+      dispatcher.destroy()
+    }
+  },
+})
+
+/**
+ * Send message call request to parent and listen for the result, only accepting
+ * results from parents of allowed origins. Returns a promise that resolves with
+ * the result on success or rejects with an error.
+ *
+ * @deprecated Use the `Cosmiframe` client or a `CosmiframeDispatcher`, which
+ * this delegates to.
+ */
+export const callParentMethod = <T = any>(
+  message: CallParentMethodOptions,
+  origins: Origin[],
+  /**
+   * The timeout in milliseconds after which to reject the promise and stop
+   * listening if the parent has not responded. If undefined, no timeout.
+   *
+   * Defaults to no timeout.
+   */
+  timeout?: number,
+  /**
+   * The codec used to encode params and decode the result. The raw params are
+   * sent too, so parents that do not support the codec still work.
+   */
+  codec?: CosmiframeCodec
+): Promise<CalledParentMethodResult<T>> =>
+  createParentMethodCaller(origins, codec).callParentMethod<T>(message, timeout)
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  CosmiframeError,
+  CosmiframeErrorCode,
+  CosmiframeHandledByParentError,
+  CosmiframeRateLimitedError,
+  CosmiframeUserRejectedError,
+  CosmiframeWalletError,
+  deserializeError,
+  serializeError,
+} from './error'
+
+describe('serializeError', () => {
+  it('keeps the code, name and data of Cosmiframe errors', () => {
+    expect(
+      serializeError(
+        new CosmiframeRateLimitedError('Too many requests.', {
+          retryAfter: 1000,
+        })
+      )
+    ).toEqual({
+      type: 'error',
+      error: 'Too many requests.',
+      code: CosmiframeErrorCode.RateLimited,
+      name: 'CosmiframeRateLimitedError',
+      data: { retryAfter: 1000 },
+    })
+  })
+
+  it('treats other errors as wallet errors unless the user rejected', () => {
+    expect(serializeError(new TypeError('Failed to fetch.'))).toEqual({
+      type: 'error',
+      error: 'Failed to fetch.',
+      code: CosmiframeErrorCode.Wallet,
+      name: 'TypeError',
+    })
+    expect(serializeError(new Error('Request rejected'))).toMatchObject({
+      code: CosmiframeErrorCode.UserRejected,
+    })
+    expect(serializeError('User denied the request.')).toEqual({
+      type: 'error',
+      error: 'User denied the request.',
+      code: CosmiframeErrorCode.UserRejected,
+      name: 'Error',
+    })
+  })
+})
+
+describe('deserializeError', () => {
+  it('rehydrates the error class matching the code', () => {
+    const error = deserializeError(
+      serializeError(
+        new CosmiframeRateLimitedError('Too many requests.', {
+          retryAfter: 1000,
+        })
+      )
+    )
+
+    expect(error).toBeInstanceOf(CosmiframeRateLimitedError)
+    expect(error).toMatchObject({
+      message: 'Too many requests.',
+      name: 'CosmiframeRateLimitedError',
+      code: CosmiframeErrorCode.RateLimited,
+      data: { retryAfter: 1000 },
+    })
+    expect(
+      deserializeError(serializeError(new Error('Rejected by the user.')))
+    ).toBeInstanceOf(CosmiframeUserRejectedError)
+    expect(
+      deserializeError(serializeError(new Error('Out of gas.')))
+    ).toBeInstanceOf(CosmiframeWalletError)
+  })
+
+  it('rehydrates generic errors for unknown or missing codes', () => {
+    const unknown = deserializeError({ error: 'Failed.', code: 'custom' })
+    expect(unknown.constructor).toBe(CosmiframeError)
+    expect(unknown.code).toBe('custom')
+
+    expect(deserializeError({ error: 'Failed.' })).toMatchObject({
+      name: 'CosmiframeError',
+      code: CosmiframeErrorCode.Unknown,
+    })
+  })
+
+  it('recognizes requests handled by older parents', () => {
+    expect(
+      deserializeError({ error: 'Handled by outer wallet.' })
+    ).toBeInstanceOf(CosmiframeHandledByParentError)
+  })
+})
@@ -1,6 +1,215 @@
-export class CosmiframeTimeoutError extends Error {
-  constructor(message: string) {
+import { MethodCallErrorResult } from './types'
+
+/**
+ * Codes identifying the kind of error that occurred, sent across the frame
+ * boundary so the iframe can rehydrate the correct error class.
+ */
+export enum CosmiframeErrorCode {
+  Unknown = 'unknown',
+  Timeout = 'timeout',
+  Cancelled = 'cancelled',
+  InvalidRequest = 'invalid_request',
+  InvalidResponse = 'invalid_response',
+  UserRejected = 'user_rejected',
+  MethodNotFound = 'method_not_found',
+  OriginDenied = 'origin_denied',
+  RequestDenied = 'request_denied',
+  HandledByParent = 'handled_by_parent',
+  SessionRevoked = 'session_revoked',
+  RateLimited = 'rate_limited',
+  SecureChannel = 'secure_channel',
+  Wallet = 'wallet',
+  SignDocModified = 'sign_doc_modified',
+}
+
+export class CosmiframeError extends Error {
+  constructor(
+    message: string,
+    public code: CosmiframeErrorCode | string = CosmiframeErrorCode.Unknown,
+    public data?: unknown
+  ) {
     super(message)
+    this.name = 'CosmiframeError'
+  }
+}
+
+export class CosmiframeTimeoutError extends CosmiframeError {
+  constructor(message: string, data?: unknown) {
+    super(message, CosmiframeErrorCode.Timeout, data)
     this.name = 'CosmiframeTimeoutError'
   }
 }
+
+export class CosmiframeCancelledError extends CosmiframeError {
+  constructor(message = 'Request cancelled.', data?: unknown) {
+    super(message, CosmiframeErrorCode.Cancelled, data)
+    this.name = 'CosmiframeCancelledError'
+  }
+}
+
+export class CosmiframeInvalidRequestError extends CosmiframeError {
+  constructor(message = 'Invalid request.', data?: unknown) {
+    super(message, CosmiframeErrorCode.InvalidRequest, data)
+    this.name = 'CosmiframeInvalidRequestError'
+  }
+}
+
+export class CosmiframeInvalidResponseError extends CosmiframeError {
+  constructor(message = 'Invalid response.', data?: unknown) {
+    super(message, CosmiframeErrorCode.InvalidResponse, data)
+    this.name = 'CosmiframeInvalidResponseError'
+  }
+}
+
+export class CosmiframeUserRejectedError extends CosmiframeError {
+  constructor(message = 'Request rejected by user.', data?: unknown) {
+    super(message, CosmiframeErrorCode.UserRejected, data)
+    this.name = 'CosmiframeUserRejectedError'
+  }
+}
+
+export class CosmiframeMethodNotFoundError extends CosmiframeError {
+  constructor(message = 'Method not found.', data?: unknown) {
+    super(message, CosmiframeErrorCode.MethodNotFound, data)
+    this.name = 'CosmiframeMethodNotFoundError'
+  }
+}
+
+export class CosmiframeOriginDeniedError extends CosmiframeError {
+  constructor(message = 'Origin denied.', data?: unknown) {
+    super(message, CosmiframeErrorCode.OriginDenied, data)
+    this.name = 'CosmiframeOriginDeniedError'
+  }
+}
+
+export class CosmiframeRequestDeniedError extends CosmiframeError {
+  constructor(message = 'Request denied by parent.', data?: unknown) {
+    super(message, CosmiframeErrorCode.RequestDenied, data)
+    this.name = 'CosmiframeRequestDeniedError'
+  }
+}
+
+export class CosmiframeHandledByParentError extends CosmiframeError {
+  constructor(message = 'Handled by outer wallet.', data?: unknown) {
+    super(message, CosmiframeErrorCode.HandledByParent, data)
+    this.name = 'CosmiframeHandledByParentError'
+  }
+}
+
+export class CosmiframeSessionRevokedError extends CosmiframeError {
+  constructor(message = 'Session revoked by parent.', data?: unknown) {
+    super(message, CosmiframeErrorCode.SessionRevoked, data)
+    this.name = 'CosmiframeSessionRevokedError'
+  }
+}
+
+export class CosmiframeRateLimitedError extends CosmiframeError {
+  constructor(message = 'Too many requests.', data?: unknown) {
+    super(message, CosmiframeErrorCode.RateLimited, data)
+    this.name = 'CosmiframeRateLimitedError'
+  }
+}
+
+export class CosmiframeSecureChannelError extends CosmiframeError {
+  constructor(message = 'Secure channel error.', data?: unknown) {
+    super(message, CosmiframeErrorCode.SecureChannel, data)
+    this.name = 'CosmiframeSecureChannelError'
+  }
+}
+
+export class CosmiframeWalletError extends CosmiframeError {
+  constructor(message = 'Wallet error.', data?: unknown) {
+    super(message, CosmiframeErrorCode.Wallet, data)
+    this.name = 'CosmiframeWalletError'
+  }
+}
+
+export class CosmiframeSignDocModifiedError extends CosmiframeError {
+  constructor(
+    message = 'Sign doc was modified by the parent.',
+    data?: unknown
+  ) {
+    super(message, CosmiframeErrorCode.SignDocModified, data)
+    this.name = 'CosmiframeSignDocModifiedError'
+  }
+}
+
+/**
+ * Error classes by code, used to rehydrate errors received from the parent.
+ */
+const errorClasses: Record<
+  string,
+  new (message: string, data?: unknown) => CosmiframeError
+> = {
+  [CosmiframeErrorCode.Timeout]: CosmiframeTimeoutError,
+  [CosmiframeErrorCode.Cancelled]: CosmiframeCancelledError,
+  [CosmiframeErrorCode.InvalidRequest]: CosmiframeInvalidRequestError,
+  [CosmiframeErrorCode.InvalidResponse]: CosmiframeInvalidResponseError,
+  [CosmiframeErrorCode.UserRejected]: CosmiframeUserRejectedError,
+  [CosmiframeErrorCode.MethodNotFound]: CosmiframeMethodNotFoundError,
+  [CosmiframeErrorCode.OriginDenied]: CosmiframeOriginDeniedError,
+  [CosmiframeErrorCode.RequestDenied]: CosmiframeRequestDeniedError,
+  [CosmiframeErrorCode.HandledByParent]: CosmiframeHandledByParentError,
+  [CosmiframeErrorCode.SessionRevoked]: CosmiframeSessionRevokedError,
+  [CosmiframeErrorCode.RateLimited]: CosmiframeRateLimitedError,
+  [CosmiframeErrorCode.SecureChannel]: CosmiframeSecureChannelError,
+  [CosmiframeErrorCode.Wallet]: CosmiframeWalletError,
+  [CosmiframeErrorCode.SignDocModified]: CosmiframeSignDocModifiedError,
+}
+
+/**
+ * Error messages wallets use when the user rejects a request.
+ */
+const USER_REJECTED_REGEX =
+  /request rejected|rejected by (the )?user|user (rejected|denied|cancel)/i
+
+/**
+ * Convert an error thrown by the parent into the fields of an error result
+ * message. Errors that are not Cosmiframe errors are treated as wallet errors,
+ * unless they look like the user rejected the request.
+ */
+export const serializeError = (err: unknown): MethodCallErrorResult => {
+  if (err instanceof CosmiframeError) {
+    return {
+      type: 'error',
+      error: err.message,
+      code: err.code,
+      name: err.name,
+      data: err.data,
+    }
+  }
+
+  const message = err instanceof Error ? err.message : `${err}`
+
+  return {
+    type: 'error',
+    error: message,
+    code: USER_REJECTED_REGEX.test(message)
+      ? CosmiframeErrorCode.UserRejected
+      : CosmiframeErrorCode.Wallet,
+    name: err instanceof Error ? err.name : 'Error',
+  }
+}
+
+/**
+ * Rehydrate an error from the fields of an error result message, so that
+ * `instanceof` checks work in the iframe. Parents that do not send error codes
+ * produce generic Cosmiframe errors.
+ */
+export const deserializeError = ({
+  error,
+  code,
+  data,
+}: Pick<MethodCallErrorResult, 'error' | 'code' | 'data'>): CosmiframeError => {
+  // Older parents do not send codes but use a known message when an override
+  // handles a request.
+  if (!code && error === 'Handled by outer wallet.') {
+    code = CosmiframeErrorCode.HandledByParent
+  }
+
+  const ErrorClass = code && errorClasses[code]
+
+  return ErrorClass
+    ? new ErrorClass(error, data)
+    : new CosmiframeError(error, code, data)
+}
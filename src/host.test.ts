@@ -0,0 +1,380 @@
+// @vitest-environment jsdom
+
+import { SignDoc } from 'cosmjs-types/cosmos/tx/v1beta1/tx'
+import { describe, expect, it, vi } from 'vitest'
+
+import { CosmiframeSecureChannel, isSecureMessage } from './channel'
+import { Cosmiframe } from './client'
+import { defaultCodec } from './codec'
+import {
+  CosmiframeErrorCode,
+  CosmiframeInvalidRequestError,
+  CosmiframeRequestDeniedError,
+  CosmiframeSessionRevokedError,
+} from './error'
+import { CosmiframeHost } from './host'
+import { CosmiframeSessions } from './session'
+import { useTestHarness } from './test-utils'
+import { createMemoryTransports } from './transport'
+import { CosmiframeFeature, InternalMethod } from './types'
+import { PROTOCOL_VERSION } from './utils'
+
+const parentOrigin = 'https://parent.example'
+
+describe('CosmiframeHost', () => {
+  const setUp = useTestHarness()
+
+  it('passes override factories a context the iframe cannot forge', async () => {
+    const override = vi.fn(() => ({ type: 'call' as const }))
+    const overrides = vi.fn(() => ({ enable: override }))
+    const { harness, cosmiframe } = setUp({
+      nonSignerOverrides: overrides,
+    })
+
+    await cosmiframe.p.enable('juno-1', { origin: 'https://trusted.app' })
+
+    expect(overrides).toHaveBeenCalledWith(
+      expect.objectContaining({ origin: harness.iframeOrigin })
+    )
+    expect(override).toHaveBeenCalledWith('juno-1', {
+      origin: 'https://trusted.app',
+    })
+
+    cosmiframe.destroy()
+  })
+
+  it('rejects malformed sign docs as invalid requests', async () => {
+    const { cosmiframe } = setUp()
+
+    await expect(
+      cosmiframe.p.signDirect('cosmoshub-4', 'cosmos1', {
+        bodyBytes: 5,
+        authInfoBytes: 'invalid',
+        chainId: 'cosmoshub-4',
+        accountNumber: 0,
+      } as unknown as SignDoc)
+    ).rejects.toThrow(CosmiframeInvalidRequestError)
+
+    cosmiframe.destroy()
+  })
+
+  it('rejects requests whose params fail to decode', async () => {
+    const { iframe, parent } = createMemoryTransports({
+      iframeOrigin: 'https://app.example',
+      parentOrigin: 'https://parent.example',
+    })
+    const host = new CosmiframeHost({
+      target: {},
+      getOfflineSignerDirect: () => {
+        throw new Error('Unused.')
+      },
+      getOfflineSignerAmino: () => {
+        throw new Error('Unused.')
+      },
+    })
+    const unregister = host.register(parent)
+
+    const response = new Promise((resolve) => iframe.listen(resolve))
+    iframe.postMessage(
+      {
+        id: 'request',
+        method: 'getKey',
+        params: [],
+        codec: defaultCodec.version,
+        encodedParams: [{ __cosmiframe__: 'bigint', value: 'invalid' }],
+      },
+      '*'
+    )
+
+    await expect(response).resolves.toMatchObject({
+      data: {
+        id: 'request',
+        type: 'error',
+        code: CosmiframeErrorCode.InvalidRequest,
+      },
+    })
+
+    unregister()
+  })
+
+  it('records handshakes and encodes events for iframes with the codec', async () => {
+    const { iframe, parent } = createMemoryTransports({
+      iframeOrigin: 'https://app.example',
+      parentOrigin: 'https://parent.example',
+    })
+    const host = new CosmiframeHost({
+      target: {
+        getKey: () => 'key',
+      },
+      getOfflineSignerDirect: () => {
+        throw new Error('Unused.')
+      },
+      getOfflineSignerAmino: () => {
+        throw new Error('Unused.')
+      },
+    })
+    const unregister = host.register(parent)
+    const client = new Cosmiframe(['https://parent.example'], {
+      transport: iframe,
+    })
+
+    const messages: unknown[] = []
+    iframe.listen(({ data }) => messages.push(data))
+    const handler = vi.fn()
+    client.on('amount', handler)
+
+    // Events are sent raw until the iframe reports its codec.
+    host.emit('amount', 5)
+    await vi.waitFor(() =>
+      expect(handler).toHaveBeenCalledWith(5, parentOrigin)
+    )
+    expect(messages).toEqual([{ type: 'event', event: 'amount', payload: 5 }])
+
+    const capabilities = await client.getCapabilities()
+    expect(capabilities).toMatchObject({
+      protocolVersion: PROTOCOL_VERSION,
+      codec: defaultCodec.version,
+      methods: ['getKey'],
+    })
+    expect(capabilities.features).toContain(CosmiframeFeature.Batching)
+
+    messages.length = 0
+    host.emit('amount', 5n)
+    await vi.waitFor(() =>
+      expect(handler).toHaveBeenLastCalledWith(5n, parentOrigin)
+    )
+    expect(messages).toEqual([
+      expect.objectContaining({ type: 'event', codec: defaultCodec.version }),
+    ])
+
+    client.destroy()
+    unregister()
+  })
+
+  it('keeps a limited number of secure channels per iframe', async () => {
+    const { iframe, parent } = createMemoryTransports({
+      iframeOrigin: 'https://app.example',
+      parentOrigin: 'https://parent.example',
+    })
+    const host = new CosmiframeHost({
+      target: {},
+      getOfflineSignerDirect: () => {
+        throw new Error('Unused.')
+      },
+      getOfflineSignerAmino: () => {
+        throw new Error('Unused.')
+      },
+    })
+    const unregister = host.register(parent)
+
+    const messages: unknown[] = []
+    iframe.listen(({ data }) => messages.push(data))
+
+    const publicKey = await CosmiframeSecureChannel.exportPublicKey(
+      await CosmiframeSecureChannel.generateKeyPair()
+    )
+    for (let i = 0; i < 20; i++) {
+      iframe.postMessage(
+        {
+          id: `${i}`,
+          internal: true,
+          method: InternalMethod.KeyExchange,
+          params: [],
+          codec: defaultCodec.version,
+          encodedParams: defaultCodec.encode([{ publicKey }]),
+        },
+        '*'
+      )
+    }
+    await vi.waitFor(() => expect(messages).toHaveLength(20))
+
+    messages.length = 0
+    host.emit('event')
+    await vi.waitFor(() =>
+      expect(
+        messages.filter((message) => isSecureMessage(message))
+      ).toHaveLength(8)
+    )
+
+    unregister()
+  })
+
+  it('only accepts relayed requests from iframes allowed to relay', async () => {
+    const authorize = vi.fn(() => true)
+    const request = async (allowRelayedRequests?: boolean) => {
+      const { iframe, parent } = createMemoryTransports({
+        iframeOrigin: 'https://app.example',
+        parentOrigin: 'https://parent.example',
+      })
+      const host = new CosmiframeHost({
+        target: {
+          getKey: () => 'key',
+        },
+        getOfflineSignerDirect: () => {
+          throw new Error('Unused.')
+        },
+        getOfflineSignerAmino: () => {
+          throw new Error('Unused.')
+        },
+        authorize,
+        allowRelayedRequests,
+      })
+      const unregister = host.register(parent)
+
+      const response = new Promise((resolve) =>
+        iframe.listen(({ data }) => resolve(data))
+      )
+      iframe.postMessage(
+        {
+          id: 'request',
+          method: 'getKey',
+          params: ['juno-1'],
+          relayedFrom: ['https://trusted.app'],
+        },
+        '*'
+      )
+
+      return response.finally(unregister)
+    }
+
+    await expect(request()).resolves.toMatchObject({
+      type: 'error',
+      code: CosmiframeErrorCode.RequestDenied,
+    })
+    expect(authorize).not.toHaveBeenCalled()
+
+    await expect(request(true)).resolves.toMatchObject({
+      type: 'success',
+      response: 'key',
+    })
+    expect(authorize).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ relayedFrom: ['https://trusted.app'] })
+    )
+  })
+
+  it('reports audit errors to the error handler', async () => {
+    const onError = vi.fn()
+    const { cosmiframe } = setUp({
+      target: {
+        getKey: () => 'key',
+      },
+      onAuditEvent: () => {
+        throw new Error('Audit failed.')
+      },
+      onError,
+    })
+
+    await expect(cosmiframe.p.getKey('juno-1')).resolves.toBe('key')
+    expect(onError).toHaveBeenCalledWith(
+      'Failed to record audit event.',
+      new Error('Audit failed.')
+    )
+
+    cosmiframe.destroy()
+  })
+
+  it('serves popups until they are closed', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] })
+
+    const popup = { closed: false, postMessage: vi.fn() }
+    const authorize = vi.fn(() => true)
+    const host = new CosmiframeHost({
+      target: {
+        getKey: () => 'key',
+      },
+      getOfflineSignerDirect: () => {
+        throw new Error('Unused.')
+      },
+      getOfflineSignerAmino: () => {
+        throw new Error('Unused.')
+      },
+      authorize,
+    })
+    host.register(popup as unknown as Window, {
+      origins: ['https://app.example'],
+    })
+
+    const request = (id: string) =>
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: { id, method: 'getKey', params: ['juno-1'] },
+          origin: 'https://app.example',
+          source: popup as unknown as MessageEventSource,
+        })
+      )
+
+    request('1')
+    await vi.waitFor(() =>
+      expect(popup.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '1', type: 'success', response: 'key' }),
+        'https://app.example',
+        undefined
+      )
+    )
+    expect(authorize).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ popup, iframe: undefined })
+    )
+
+    popup.closed = true
+    vi.advanceTimersByTime(1000)
+    request('2')
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(popup.postMessage).toHaveBeenCalledOnce()
+
+    vi.useRealTimers()
+  })
+
+  it('rejects revoked origins until they are granted again', async () => {
+    const sessions = new CosmiframeSessions()
+    const { harness, cosmiframe } = setUp({ sessions })
+
+    await cosmiframe.p.enable('cosmoshub-4')
+    await sessions.revoke(harness.iframeOrigin)
+
+    await expect(cosmiframe.p.enable('cosmoshub-4')).rejects.toThrow(
+      CosmiframeSessionRevokedError
+    )
+    await expect(cosmiframe.p.getKey('cosmoshub-4')).rejects.toThrow(
+      CosmiframeSessionRevokedError
+    )
+
+    await sessions.grant(harness.iframeOrigin, { chainIds: ['cosmoshub-4'] })
+    await expect(cosmiframe.p.getKey('cosmoshub-4')).resolves.toBeTruthy()
+
+    cosmiframe.destroy()
+  })
+
+  it('checks signer capability requests before calling the wallet', async () => {
+    const sessions = new CosmiframeSessions()
+    const getKey = vi.fn(async () => ({ isNanoLedger: true }))
+    const { harness, cosmiframe } = setUp({
+      sessions,
+      target: { getKey },
+      policy: {
+        chainIds: {
+          deny: ['osmosis-1'],
+        },
+      },
+    })
+
+    await expect(cosmiframe.getSignerCapabilities('osmosis-1')).rejects.toThrow(
+      CosmiframeRequestDeniedError
+    )
+
+    await sessions.revoke(harness.iframeOrigin)
+    await expect(
+      cosmiframe.getSignerCapabilities('cosmoshub-4')
+    ).rejects.toThrow(CosmiframeSessionRevokedError)
+    expect(getKey).not.toHaveBeenCalled()
+
+    await sessions.grant(harness.iframeOrigin, { chainIds: ['cosmoshub-4'] })
+    await expect(
+      cosmiframe.getSignerCapabilities('cosmoshub-4')
+    ).resolves.toMatchObject({ amino: true, direct: false, hardware: true })
+    expect(getKey).toHaveBeenCalledWith('cosmoshub-4')
+
+    cosmiframe.destroy()
+  })
+})
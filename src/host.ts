@@ -0,0 +1,1414 @@
+import { v4 as uuidv4 } from 'uuid'
+
+import { CosmiframeSecureChannel, isSecureMessage } from './channel'
+import { defaultCodec } from './codec'
+import { DecodeOptions, decodeSignRequest, decodeSignResponse } from './decode'
+import {
+  CosmiframeCancelledError,
+  CosmiframeErrorCode,
+  CosmiframeInvalidRequestError,
+  CosmiframeMethodNotFoundError,
+  CosmiframeOriginDeniedError,
+  CosmiframeRequestDeniedError,
+  CosmiframeSecureChannelError,
+  CosmiframeSessionRevokedError,
+  serializeError,
+} from './error'
+import { getDeclaredSignDocModifications } from './integrity'
+import { authorizeRequest } from './policy'
+import {
+  createMessagePortTransport,
+  createWindowTransport,
+  isTransport,
+} from './transport'
+import {
+  AuditEvent,
+  BatchRequest,
+  CallParentMethodOptions,
+  CancelRequestMessage,
+  Capabilities,
+  CosmiframeFeature,
+  CosmiframeTransport,
+  EventMessage,
+  HandshakeInfo,
+  HostIframeOptions,
+  HostOptions,
+  HostPeer,
+  InternalMethod,
+  KeyExchangeRequest,
+  KeyExchangeResponse,
+  MethodCallResultMessage,
+  MethodCallResultMessageNoId,
+  RelayTarget,
+  RequestContext,
+  RequestMethodCallMessage,
+  SecureMessage,
+  SignerCapabilities,
+  TransportMessage,
+} from './types'
+import {
+  PROTOCOL_VERSION,
+  getMethodNames,
+  getRequestChainIds,
+  isOriginAllowed,
+  processOverrideHandler,
+} from './utils'
+import {
+  validateParams,
+  validateRequestMessage,
+  validateResult,
+} from './validate'
+
+/**
+ * The state of an iframe, popup or transport registered with a host.
+ */
+type Registration = {
+  /**
+   * The registered iframe, popup or transport.
+   */
+  peer: HostPeer
+  /**
+   * The iframe's options merged with the host's options.
+   */
+  options: HostOptions
+  /**
+   * The transport messages are sent to the peer over. For iframes and popups,
+   * this posts to their window, and messages from it are received by the
+   * host's window listener.
+   */
+  transport: CosmiframeTransport
+  /**
+   * Transports over ports handed off by the peer, with functions that stop
+   * listening to them.
+   */
+  ports: Map<CosmiframeTransport, () => void>
+  /**
+   * Stop listening to the registered transport.
+   */
+  unsubscribes: (() => void)[]
+  /**
+   * Origins that have sent valid requests, which may have matched a regular
+   * expression. Events are sent to these in addition to the explicitly allowed
+   * origins.
+   */
+  requestOrigins: Set<string>
+  /**
+   * Controllers that abort requests still being processed, by ID, so they can
+   * be cancelled by the iframe.
+   */
+  controllers: Map<string, AbortController>
+  /**
+   * Secure channels established with the iframe and the transports they were
+   * established over, by ID.
+   */
+  channels: Map<
+    string,
+    {
+      channel: CosmiframeSecureChannel
+      transport: CosmiframeTransport
+    }
+  >
+  /**
+   * The info the iframe sent in its last handshake, such as its protocol
+   * version, features and codec. Undefined until it performs one.
+   */
+  handshake?: HandshakeInfo
+  /**
+   * Whether or not the iframe has been seen in the DOM. Iframes are only
+   * cleaned up once they have been added and then removed, so they can be
+   * registered before being added. Popups are cleaned up once closed, and
+   * transports are always connected.
+   */
+  connected: boolean
+}
+
+/**
+ * Internal methods the iframe can call without a secure channel when one is
+ * required, so that it can establish one.
+ */
+const INSECURE_METHODS: string[] = [
+  InternalMethod.IsCosmiframe,
+  InternalMethod.Handshake,
+  InternalMethod.KeyExchange,
+  InternalMethod.OpenPort,
+]
+
+/**
+ * Signer methods that offline signers do not implement, which are dispatched
+ * to the target with the chain ID if it implements them, like Keplr does.
+ */
+const ARBITRARY_SIGNER_METHODS: string[] = ['signArbitrary', 'verifyArbitrary']
+
+/**
+ * How often in milliseconds registered popups are checked for being closed,
+ * since closing them fires no event in the parent.
+ */
+const POPUP_POLL_INTERVAL = 1000
+
+/**
+ * The maximum number of secure channels and of ports kept per registration.
+ * When the peer opens more, such as after reloading, the oldest are dropped so
+ * it cannot grow them without bound.
+ */
+const MAX_CHANNELS = 8
+const MAX_PORTS = 8
+
+/**
+ * Returns whether or not a peer is an iframe rather than a popup or transport.
+ */
+const isIframe = (peer: HostPeer): peer is HTMLIFrameElement =>
+  !isTransport(peer) && 'contentWindow' in peer
+
+/**
+ * Returns the window messages from a peer are received from, unless it is a
+ * transport.
+ */
+const getPeerWindow = (peer: HostPeer): Window | null | undefined =>
+  isTransport(peer) ? undefined : isIframe(peer) ? peer.contentWindow : peer
+
+/**
+ * Returns whether or not a message contains the fields required of a request.
+ */
+const isRequestMessage = (data: unknown): data is RequestMethodCallMessage =>
+  !!data &&
+  typeof data === 'object' &&
+  'id' in data &&
+  'method' in data &&
+  'params' in data
+
+/**
+ * Returns whether or not the iframe sent valid handshake info.
+ */
+const isHandshakeInfo = (info: unknown): info is HandshakeInfo =>
+  !!info &&
+  typeof info === 'object' &&
+  'protocolVersion' in info &&
+  typeof info.protocolVersion === 'number' &&
+  'features' in info &&
+  Array.isArray(info.features) &&
+  info.features.every((feature) => typeof feature === 'string') &&
+  (!('codec' in info) ||
+    info.codec === undefined ||
+    typeof info.codec === 'string')
+
+/**
+ * Returns the relayed origins reported by a request, ignoring invalid ones.
+ */
+const getRelayedFrom = ({
+  relayedFrom,
+}: RequestMethodCallMessage): string[] | undefined =>
+  Array.isArray(relayedFrom)
+    ? relayedFrom.filter(
+        (origin): origin is string => typeof origin === 'string'
+      )
+    : undefined
+
+/**
+ * Decode the sign doc of a sign request, rejecting malformed sign docs with a
+ * `CosmiframeInvalidRequestError`.
+ */
+const decodeRequestSignDoc = (
+  request: RequestMethodCallMessage,
+  options: DecodeOptions
+) => {
+  try {
+    return decodeSignRequest(request, options)
+  } catch (err) {
+    throw new CosmiframeInvalidRequestError(
+      `Invalid sign doc in request: ${err instanceof Error ? err.message : err}`
+    )
+  }
+}
+
+/**
+ * Returns the fields of an audit event that describe a request.
+ */
+const getAuditFields = (
+  request: RequestMethodCallMessage,
+  origin: string
+): Omit<AuditEvent, 'type' | 'timestamp'> => ({
+  origin,
+  requestId: request.id,
+  method: request.method,
+  chainId: request.chainId,
+  signerType: request.signerType,
+  internal: !!request.internal,
+  relayedFrom: getRelayedFrom(request),
+})
+
+/**
+ * A host listens for requests from any number of iframes using a single
+ * listener, routing them by source to the registered iframe. Popup windows,
+ * for apps that cannot be framed, and transports, such as a
+ * `BroadcastChannel` shared with an app in another tab, can be registered
+ * instead of iframes. The target and signer factories are shared, and each
+ * iframe can set its own origins, metadata, overrides and policies. This
+ * should be used by the parent.
+ */
+export class CosmiframeHost {
+  /**
+   * Options shared by all registered iframes.
+   */
+  #options: HostOptions
+
+  /**
+   * Registered iframes and transports.
+   */
+  #registrations = new Map<HostPeer, Registration>()
+
+  /**
+   * Observes the DOM to clean up iframes that are removed from it.
+   */
+  #observer?: MutationObserver
+
+  /**
+   * Periodically cleans up popups that were closed, while any are registered.
+   */
+  #popupPoller?: ReturnType<typeof setInterval>
+
+  constructor(options: HostOptions) {
+    this.#options = options
+  }
+
+  /**
+   * The registered iframes.
+   */
+  get iframes(): HTMLIFrameElement[] {
+    return [...this.#registrations.keys()].filter(
+      (peer): peer is HTMLIFrameElement => isIframe(peer)
+    )
+  }
+
+  /**
+   * Start listening for requests from the iframe, popup or transport, with
+   * options that override the host's options. Returns a function that can be
+   * called to unregister it. Iframes are unregistered automatically when
+   * removed from the DOM, and popups when closed.
+   */
+  register(peer: HostPeer, options: HostIframeOptions = {}) {
+    if (!this.#registrations.size) {
+      this.#start()
+    }
+
+    const existing = this.#registrations.get(peer)
+    if (existing) {
+      this.#release(existing)
+    }
+
+    const registration: Registration = {
+      peer,
+      options: {
+        ...this.#options,
+        // Only override options that are set.
+        ...Object.fromEntries(
+          Object.entries(options).filter(([, value]) => value !== undefined)
+        ),
+      },
+      transport: isTransport(peer)
+        ? peer
+        : createWindowTransport(() => getPeerWindow(peer)),
+      ports: new Map(),
+      unsubscribes: [],
+      requestOrigins: new Set(),
+      controllers: new Map(),
+      channels: new Map(),
+      connected: isIframe(peer) ? peer.isConnected : true,
+    }
+    this.#registrations.set(peer, registration)
+
+    // Messages from iframes and popups are received by the window listener.
+    if (isTransport(peer)) {
+      registration.unsubscribes.push(
+        peer.listen((message) => this.#handle(registration, peer, message))
+      )
+    } else if (!isIframe(peer) && !this.#popupPoller) {
+      this.#popupPoller = setInterval(
+        () => this.#cleanUp(),
+        POPUP_POLL_INTERVAL
+      )
+    }
+
+    return () => this.unregister(peer)
+  }
+
+  /**
+   * Stop listening for requests from the iframe, popup or transport.
+   */
+  unregister(peer: HostPeer) {
+    const registration = this.#registrations.get(peer)
+    if (registration) {
+      this.#release(registration)
+      this.#registrations.delete(peer)
+    }
+
+    if (!this.#registrations.size) {
+      this.#stop()
+    }
+  }
+
+  /**
+   * Unregister all iframes, popups and transports and stop listening.
+   */
+  destroy() {
+    this.#registrations.forEach((registration) => this.#release(registration))
+    this.#registrations.clear()
+    this.#stop()
+  }
+
+  /**
+   * Send an event to a registered iframe, popup or transport, or all of them if
+   * none is provided. The iframe can subscribe to events using the `on` function of
+   * the client.
+   */
+  emit<T = any>(event: string, payload?: T, peer?: HostPeer) {
+    this.#registrations.forEach(
+      (
+        { options, transport, ports, requestOrigins, channels, handshake },
+        registered
+      ) => {
+        if (peer && peer !== registered) {
+          return
+        }
+
+        // Encode the payload if the iframe reported using the same codec in the
+        // handshake.
+        const codec = options.codec || defaultCodec
+        const message: EventMessage =
+          handshake?.codec === codec.version
+            ? {
+                type: 'event',
+                event,
+                payload: codec.encode(payload),
+                codec: codec.version,
+              }
+            : {
+                type: 'event',
+                event,
+                payload,
+              }
+
+        // Send the event over each secure channel with the iframe, and only
+        // unencrypted if secure channels are not required.
+        channels.forEach(({ channel, transport }) =>
+          channel
+            .seal(message)
+            .then((sealed) => transport.postMessage(sealed, channel.origin))
+            .catch((err) =>
+              options.onError?.(
+                'Failed to send event over secure channel.',
+                err
+              )
+            )
+        )
+        if (options.requireSecureChannel) {
+          return
+        }
+
+        const origins = options.origins?.length ? options.origins : ['*']
+
+        // Only send to allowed origins. Regular expressions cannot be used as
+        // target origins, so send to origins that matched them when requesting.
+        const targetOrigins = origins.includes('*')
+          ? ['*']
+          : [
+              ...new Set([
+                ...origins.filter(
+                  (origin): origin is string => typeof origin === 'string'
+                ),
+                ...requestOrigins,
+              ]),
+            ]
+
+        targetOrigins.forEach((origin) =>
+          transport.postMessage(message, origin)
+        )
+
+        // Ports only deliver to the origin they were received from.
+        ports.forEach((_, port) => port.postMessage(message, '*'))
+      }
+    )
+  }
+
+  #start() {
+    window.addEventListener('message', this.#listener)
+
+    if (typeof MutationObserver !== 'undefined') {
+      this.#observer = new MutationObserver(() => this.#cleanUp())
+      this.#observer.observe(document, {
+        childList: true,
+        subtree: true,
+      })
+    }
+  }
+
+  #stop() {
+    window.removeEventListener('message', this.#listener)
+
+    this.#observer?.disconnect()
+    this.#observer = undefined
+
+    clearInterval(this.#popupPoller)
+    this.#popupPoller = undefined
+  }
+
+  /**
+   * Stop listening to a registration's transport and ports, closing the ports.
+   */
+  #release({ unsubscribes, ports }: Registration) {
+    unsubscribes.forEach((unsubscribe) => unsubscribe())
+    unsubscribes.length = 0
+
+    ports.forEach((unsubscribe, port) => {
+      unsubscribe()
+      port.close?.()
+    })
+    ports.clear()
+  }
+
+  /**
+   * Unregister iframes that were removed from the DOM and popups that were
+   * closed.
+   */
+  #cleanUp() {
+    this.#registrations.forEach((registration, peer) => {
+      if (isTransport(peer)) {
+        return
+      }
+
+      if (!isIframe(peer)) {
+        if (peer.closed) {
+          this.unregister(peer)
+        }
+        return
+      }
+
+      if (peer.isConnected) {
+        registration.connected = true
+      } else if (registration.connected) {
+        this.unregister(peer)
+      }
+    })
+  }
+
+  #listener = ({ source, origin, data }: MessageEvent) => {
+    // Verify event is coming from a registered iframe or popup.
+    const registration = source
+      ? [...this.#registrations.values()].find(
+          ({ peer }) => getPeerWindow(peer) === source
+        )
+      : undefined
+    if (!registration) {
+      // Only audit messages that look like requests, since the window receives
+      // other messages too.
+      if (isRequestMessage(data)) {
+        this.#audit(this.#options, {
+          type: 'rejected',
+          timestamp: Date.now(),
+          rejection: 'source',
+          ...getAuditFields(data, origin),
+        })
+      }
+      return
+    }
+
+    this.#handle(registration, registration.transport, { data, origin })
+  }
+
+  /**
+   * Handle a message received from a registered iframe or transport, reporting
+   * failures to the error handler since nothing else can catch them.
+   */
+  #handle(
+    registration: Registration,
+    transport: CosmiframeTransport,
+    message: TransportMessage
+  ) {
+    this.#receive(registration, transport, message).catch((err) =>
+      registration.options.onError?.('Failed to handle message.', err)
+    )
+  }
+
+  /**
+   * Handle a message received from a registered iframe or transport,
+   * responding over the transport it was received over.
+   */
+  async #receive(
+    registration: Registration,
+    transport: CosmiframeTransport,
+    {
+      origin,
+      data,
+    }: TransportMessage<
+      RequestMethodCallMessage | CancelRequestMessage | SecureMessage | string
+    >
+  ) {
+    const { peer, options, requestOrigins, controllers, channels } =
+      registration
+    const codec = options.codec || defaultCodec
+
+    // Verify origin is allowed.
+    if (
+      !isOriginAllowed(
+        options.origins?.length ? options.origins : ['*'],
+        origin
+      )
+    ) {
+      this.#audit(options, {
+        type: 'rejected',
+        timestamp: Date.now(),
+        rejection: 'origin',
+        ...(isRequestMessage(data) ? getAuditFields(data, origin) : { origin }),
+      })
+      return
+    }
+
+    // Decrypt messages sent over a secure channel established with the iframe.
+    let channel: CosmiframeSecureChannel | undefined
+    if (isSecureMessage(data)) {
+      channel = channels.get(data.channel)?.channel
+
+      const opened =
+        channel?.origin === origin
+          ? await channel.open(data).catch(() => undefined)
+          : undefined
+      if (!opened) {
+        this.#audit(options, {
+          type: 'rejected',
+          timestamp: Date.now(),
+          rejection: 'channel',
+          origin,
+        })
+        return
+      }
+
+      data = opened as RequestMethodCallMessage | CancelRequestMessage
+    }
+
+    // Abort requests cancelled by the iframe.
+    if (
+      data &&
+      typeof data === 'object' &&
+      'type' in data &&
+      data.type === 'cancel'
+    ) {
+      controllers.get(data.id)?.abort(new CosmiframeCancelledError())
+      return
+    }
+
+    // Verify message contains required fields.
+    if (!isRequestMessage(data)) {
+      this.#audit(options, {
+        type: 'rejected',
+        timestamp: Date.now(),
+        rejection: 'shape',
+        origin,
+      })
+      return
+    }
+
+    // Reject malformed requests, responding if they can be identified.
+    try {
+      validateRequestMessage(data, options.limits)
+    } catch (err) {
+      this.#audit(options, {
+        type: 'rejected',
+        timestamp: Date.now(),
+        rejection: 'shape',
+        origin,
+      })
+
+      if (typeof data.id === 'string') {
+        await this.#respond(transport, origin, channel, {
+          ...serializeError(err),
+          id: data.id,
+        })
+      }
+      return
+    }
+
+    // Reject requests not sent over a secure channel if one is required,
+    // unless they are needed to establish one.
+    if (
+      options.requireSecureChannel &&
+      !channel &&
+      !(data.internal && INSECURE_METHODS.includes(data.method))
+    ) {
+      this.#audit(options, {
+        type: 'rejected',
+        timestamp: Date.now(),
+        rejection: 'channel',
+        ...getAuditFields(data, origin),
+      })
+
+      await this.#respond(transport, origin, channel, {
+        ...serializeError(
+          new CosmiframeSecureChannelError(
+            'Requests must be sent over a secure channel.'
+          )
+        ),
+        id: data.id,
+      })
+      return
+    }
+
+    requestOrigins.add(origin)
+
+    // Decode params if encoded with a supported codec, falling back to the raw
+    // params otherwise.
+    const encoded =
+      data.codec === codec.version && Array.isArray(data.encodedParams)
+    let params: unknown[]
+    try {
+      params = encoded
+        ? (codec.decode(data.encodedParams) as unknown[])
+        : data.params
+    } catch (err) {
+      this.#audit(options, {
+        type: 'rejected',
+        timestamp: Date.now(),
+        rejection: 'shape',
+        ...getAuditFields(data, origin),
+      })
+
+      await this.#respond(transport, origin, channel, {
+        ...serializeError(
+          new CosmiframeInvalidRequestError(
+            `Invalid encoded params in request: ${
+              err instanceof Error ? err.message : err
+            }`
+          )
+        ),
+        id: data.id,
+      })
+      return
+    }
+
+    const controller = new AbortController()
+    controllers.set(data.id, controller)
+
+    const receivedAt = Date.now()
+    let msg = await this.#processRequest(
+      registration,
+      {
+        ...data,
+        // Backwards compatibility.
+        method: data.method.replace(/^signer:/, ''),
+        signerType: data.signerType || data.signType,
+        params,
+      },
+      {
+        origin,
+        iframe: isIframe(peer) ? peer : undefined,
+        popup: isTransport(peer) || isIframe(peer) ? undefined : peer,
+        transport,
+        receivedAt,
+        signal: controller.signal,
+        secure: !!channel,
+      }
+    )
+
+    controllers.delete(data.id)
+
+    // Encode the response if the request was encoded.
+    if (encoded && msg.type === 'success') {
+      msg = {
+        ...msg,
+        response: codec.encode(msg.response),
+        codec: codec.version,
+      }
+    }
+
+    await this.#respond(transport, origin, channel, {
+      ...msg,
+      id: data.id,
+    })
+  }
+
+  /**
+   * Send a result back to the iframe at the origin the request came from, over
+   * the transport and secure channel the request was.
+   */
+  async #respond(
+    transport: CosmiframeTransport,
+    origin: string,
+    channel: CosmiframeSecureChannel | undefined,
+    response: MethodCallResultMessage
+  ) {
+    transport.postMessage(
+      channel ? await channel.seal(response) : response,
+      origin
+    )
+  }
+
+  /**
+   * Authorize and dispatch a request, returning the result message.
+   */
+  async #processRequest(
+    registration: Registration,
+    request: RequestMethodCallMessage,
+    {
+      origin,
+      iframe,
+      popup,
+      transport,
+      receivedAt,
+      signal,
+      secure,
+    }: Pick<
+      RequestContext,
+      | 'origin'
+      | 'iframe'
+      | 'popup'
+      | 'transport'
+      | 'receivedAt'
+      | 'signal'
+      | 'secure'
+    >
+  ): Promise<MethodCallResultMessageNoId> {
+    const { options } = registration
+    const auditFields = getAuditFields(request, origin)
+
+    let msg: MethodCallResultMessageNoId
+    try {
+      // Validate the params before anything inspects them.
+      if (!request.internal) {
+        validateParams(request.method, request.params, options.validators)
+      }
+
+      const context: RequestContext = {
+        id: request.id,
+        origin,
+        iframe,
+        popup,
+        transport,
+        chainId: getRequestChainIds(request)[0],
+        signerType: request.signerType,
+        internal: !!request.internal,
+        receivedAt,
+        signDoc: request.internal
+          ? undefined
+          : decodeRequestSignDoc(request, options),
+        relayedFrom: getRelayedFrom(request),
+        signal,
+        secure,
+      }
+
+      this.#audit(options, {
+        type: 'received',
+        timestamp: Date.now(),
+        ...auditFields,
+        signDoc: context.signDoc,
+      })
+
+      const process = async () => {
+        if (!request.internal) {
+          await this.#authorize(options, request, context)
+        }
+
+        // Do not dispatch requests cancelled while being authorized.
+        if (signal?.aborted) {
+          throw new CosmiframeCancelledError()
+        }
+
+        let msg = await this.#dispatch(registration, request, context)
+
+        // Do not send invalid results from the target or signers.
+        if (!request.internal && msg.type === 'success') {
+          validateResult(request.method, msg.response, options.validators)
+        }
+
+        // Report declared changes the signers made to the sign doc, unless
+        // they were reported by the parent the request was relayed to.
+        if (
+          msg.type === 'success' &&
+          !msg.modifications &&
+          context.signDoc &&
+          options.signDocModifications
+        ) {
+          const signed = decodeSignResponse(
+            request.method,
+            context.signDoc.signerAddress,
+            msg.response,
+            options
+          )
+          const modifications =
+            signed &&
+            getDeclaredSignDocModifications(
+              context.signDoc,
+              signed,
+              options.signDocModifications
+            )
+          if (modifications?.length) {
+            msg = {
+              ...msg,
+              modifications,
+            }
+          }
+        }
+
+        // Record chain IDs and accounts exposed to the origin.
+        if (!request.internal && options.sessions && msg.type === 'success') {
+          await options.sessions.record(origin, request, msg.response)
+        }
+
+        return msg
+      }
+
+      // Apply the rate limiter to requests from the iframe.
+      msg =
+        !request.internal && options.rateLimiter
+          ? await options.rateLimiter.run(request, context, process)
+          : await process()
+    } catch (err) {
+      msg = serializeError(err)
+    }
+
+    const timestamp = Date.now()
+    this.#audit(options, {
+      type: msg.type === 'success' ? 'succeeded' : 'failed',
+      timestamp,
+      ...auditFields,
+      duration: timestamp - receivedAt,
+      ...(msg.type === 'error' && {
+        error: {
+          code: msg.code || CosmiframeErrorCode.Unknown,
+          message: msg.error,
+        },
+      }),
+    })
+
+    return msg
+  }
+
+  /**
+   * Reject requests from origins whose sessions were revoked, including
+   * attempts to reconnect, until the parent grants them again, and apply the
+   * policy and authorization hook.
+   */
+  async #authorize(
+    options: HostOptions,
+    request: RequestMethodCallMessage,
+    context: RequestContext
+  ) {
+    // The iframe reports the frames it relayed a request from itself, so only
+    // accept relayed requests from iframes trusted to relay them.
+    if (request.relayedFrom !== undefined && !options.allowRelayedRequests) {
+      throw new CosmiframeRequestDeniedError(
+        `Origin '${context.origin}' is not allowed to relay requests.`
+      )
+    }
+
+    if (
+      options.sessions &&
+      (await options.sessions.isRevoked(context.origin))
+    ) {
+      throw new CosmiframeSessionRevokedError(
+        `Session for origin '${context.origin}' was revoked.`
+      )
+    }
+
+    const { allowed, reason, code } = await authorizeRequest(
+      request,
+      context,
+      options
+    )
+    if (!allowed) {
+      throw code === CosmiframeErrorCode.OriginDenied
+        ? new CosmiframeOriginDeniedError(reason)
+        : new CosmiframeRequestDeniedError(reason)
+    }
+  }
+
+  /**
+   * Send an audit event to the listener and log, reporting their errors to
+   * the error handler so they cannot break request processing.
+   */
+  #audit(
+    { onAuditEvent, auditLog, onError }: HostIframeOptions,
+    event: AuditEvent
+  ) {
+    try {
+      onAuditEvent?.(event)
+      auditLog?.record(event)
+    } catch (err) {
+      onError?.('Failed to record audit event.', err)
+    }
+  }
+
+  /**
+   * Dispatch a request to the internal methods, signers or target, applying
+   * overrides.
+   */
+  async #dispatch(
+    registration: Registration,
+    request: RequestMethodCallMessage,
+    context: RequestContext
+  ): Promise<MethodCallResultMessageNoId> {
+    const { options } = registration
+    const { method, params, chainId, signerType, internal } = request
+    const {
+      target,
+      getOfflineSignerDirect,
+      getOfflineSignerAmino,
+      nonSignerOverrides,
+      signerOverrides,
+      relay,
+    } = options
+
+    if (internal) {
+      const internalMethods = this.#getInternalMethods(
+        registration,
+        request,
+        context
+      )
+      if (
+        typeof internalMethods[method as keyof typeof internalMethods] !==
+        'function'
+      ) {
+        throw new CosmiframeMethodNotFoundError(
+          `Unknown internal method: ${method}`
+        )
+      }
+
+      return {
+        type: 'success',
+        response: await internalMethods[method as InternalMethod](...params),
+      }
+    }
+
+    if (signerType) {
+      if (!chainId) {
+        throw new CosmiframeInvalidRequestError(
+          'Missing chainId in signer message request'
+        )
+      }
+
+      // Try signer override method.
+      const overrides =
+        typeof signerOverrides === 'function'
+          ? await signerOverrides(chainId, context)
+          : signerOverrides
+      if (overrides && method in overrides) {
+        const handledMsg = processOverrideHandler(
+          await overrides[method](...params)
+        )
+        if (handledMsg) {
+          this.#audit(options, {
+            type: 'overridden',
+            timestamp: Date.now(),
+            ...getAuditFields(request, context.origin),
+          })
+          return handledMsg
+        }
+      }
+
+      // If override does not handle it, relay it or call the original method.
+      if (relay) {
+        return this.#relay(options, relay, request, context)
+      }
+
+      if (
+        ARBITRARY_SIGNER_METHODS.includes(method) &&
+        typeof target[method] === 'function'
+      ) {
+        this.#audit(options, {
+          type: 'dispatched',
+          timestamp: Date.now(),
+          ...getAuditFields(request, context.origin),
+        })
+
+        return {
+          type: 'success',
+          response: await target[method](chainId, ...params),
+        }
+      }
+
+      const signer =
+        signerType === 'direct'
+          ? await getOfflineSignerDirect(chainId, context)
+          : await getOfflineSignerAmino(chainId, context)
+      if (
+        !(method in signer) ||
+        typeof signer[method as keyof typeof signer] !== 'function'
+      ) {
+        throw new CosmiframeMethodNotFoundError(
+          `No ${signerType} signer method '${method}' for chain ID '${chainId}'.`
+        )
+      }
+
+      this.#audit(options, {
+        type: 'dispatched',
+        timestamp: Date.now(),
+        ...getAuditFields(request, context.origin),
+      })
+
+      return {
+        type: 'success',
+        response: await (
+          signer[method as keyof typeof signer] as (...params: any[]) => any
+        )(...params),
+      }
+    }
+
+    // Try override method.
+    const overrides =
+      typeof nonSignerOverrides === 'function'
+        ? await nonSignerOverrides(context)
+        : nonSignerOverrides
+    if (overrides && method in overrides) {
+      const handledMsg = processOverrideHandler(
+        await overrides[method](...params)
+      )
+      if (handledMsg) {
+        this.#audit(options, {
+          type: 'overridden',
+          timestamp: Date.now(),
+          ...getAuditFields(request, context.origin),
+        })
+        return handledMsg
+      }
+    }
+
+    // If override does not handle it, relay it or call the original method.
+    if (relay) {
+      return this.#relay(options, relay, request, context)
+    }
+
+    if (!(method in target) || typeof target[method] !== 'function') {
+      throw new CosmiframeMethodNotFoundError(
+        `No method '${method}' on target.`
+      )
+    }
+
+    this.#audit(options, {
+      type: 'dispatched',
+      timestamp: Date.now(),
+      ...getAuditFields(request, context.origin),
+    })
+
+    return {
+      type: 'success',
+      response: await target[method](...params),
+    }
+  }
+
+  /**
+   * Relay a request to the parent, appending the origin it came from.
+   */
+  async #relay(
+    options: HostOptions,
+    relay: RelayTarget,
+    request: RequestMethodCallMessage,
+    { origin, relayedFrom = [], signal }: RequestContext
+  ): Promise<MethodCallResultMessageNoId> {
+    const { method, params, chainId, signerType } = request
+
+    this.#audit(options, {
+      type: 'dispatched',
+      timestamp: Date.now(),
+      ...getAuditFields(request, origin),
+    })
+
+    const { result, modifications } = await relay.callParentMethod(
+      {
+        method,
+        params,
+        chainId,
+        signerType,
+        relayedFrom: [...relayedFrom, origin],
+      },
+      {
+        signal,
+      }
+    )
+
+    return {
+      type: 'success',
+      response: result,
+      modifications,
+    }
+  }
+
+  /**
+   * Detect which signing methods the key for a chain supports from the signers
+   * and target. Keys reported as Ledger or Keystone by `getKey` are hardware
+   * keys, which only support amino signing.
+   */
+  async #detectSignerCapabilities(
+    {
+      target,
+      nonSignerOverrides,
+      getOfflineSignerAmino,
+      getOfflineSignerDirect,
+    }: HostOptions,
+    chainId: string,
+    context: RequestContext
+  ): Promise<Omit<SignerCapabilities, 'chainId'>> {
+    const [amino, direct, hardware, overrides] = await Promise.all([
+      Promise.resolve()
+        .then(() => getOfflineSignerAmino(chainId, context))
+        .then(
+          (signer) => typeof signer?.signAmino === 'function',
+          () => false
+        ),
+      Promise.resolve()
+        .then(() => getOfflineSignerDirect(chainId, context))
+        .then(
+          (signer) => typeof signer?.signDirect === 'function',
+          () => false
+        ),
+      typeof target.getKey === 'function'
+        ? Promise.resolve()
+            .then(() => target.getKey(chainId))
+            .then(
+              (key) => !!(key?.isNanoLedger || key?.isKeystone),
+              () => false
+            )
+        : false,
+      typeof nonSignerOverrides === 'function'
+        ? nonSignerOverrides(context)
+        : nonSignerOverrides,
+    ])
+
+    return {
+      amino,
+      direct: direct && !hardware,
+      signArbitrary:
+        typeof target.signArbitrary === 'function' ||
+        !!overrides?.signArbitrary,
+      hardware,
+    }
+  }
+
+  #getInternalMethods(
+    registration: Registration,
+    request: RequestMethodCallMessage,
+    context: RequestContext
+  ): Record<InternalMethod, (...params: any[]) => any> {
+    const { options } = registration
+    const {
+      target,
+      nonSignerOverrides,
+      metadata,
+      methods,
+      codec = defaultCodec,
+      relay,
+    } = options
+
+    return {
+      [InternalMethod.IsCosmiframe]: () => true,
+      [InternalMethod.GetMetadata]: () => metadata || null,
+      [InternalMethod.Handshake]: async (
+        info?: unknown
+      ): Promise<Capabilities> => {
+        // Remember the iframe's version, features and codec, ignoring invalid
+        // info and handshakes that send none.
+        if (isHandshakeInfo(info)) {
+          registration.handshake = info
+        }
+
+        return {
+          protocolVersion: PROTOCOL_VERSION,
+          features: [
+            CosmiframeFeature.Events,
+            CosmiframeFeature.Codec,
+            CosmiframeFeature.TypedErrors,
+            CosmiframeFeature.Batching,
+            CosmiframeFeature.Cancellation,
+            CosmiframeFeature.SecureChannel,
+            CosmiframeFeature.MessagePort,
+            CosmiframeFeature.SignerCapabilities,
+          ],
+          codec: codec.version,
+          methods:
+            methods ||
+            (relay
+              ? // Report the parent's methods when relaying.
+                (await relay.getCapabilities()).methods
+              : [
+                  ...new Set([
+                    ...getMethodNames(target),
+                    ...Object.keys(
+                      (typeof nonSignerOverrides === 'function'
+                        ? await nonSignerOverrides(context)
+                        : nonSignerOverrides) || {}
+                    ),
+                  ]),
+                ]),
+        }
+      },
+      [InternalMethod.KeyExchange]: async ({
+        publicKey,
+      }: KeyExchangeRequest): Promise<KeyExchangeResponse> => {
+        if (!(publicKey instanceof Uint8Array)) {
+          throw new CosmiframeInvalidRequestError(
+            'Missing publicKey in key exchange request'
+          )
+        }
+
+        const keyPair = await CosmiframeSecureChannel.generateKeyPair()
+        const channel = await CosmiframeSecureChannel.create({
+          id: uuidv4(),
+          origin: context.origin,
+          role: 'parent',
+          privateKey: keyPair.privateKey,
+          publicKey,
+        })
+        // Drop the oldest channel once there are too many.
+        if (registration.channels.size >= MAX_CHANNELS) {
+          const [oldest] = registration.channels.keys()
+          registration.channels.delete(oldest)
+        }
+        registration.channels.set(channel.id, {
+          channel,
+          transport: context.transport,
+        })
+
+        return {
+          channel: channel.id,
+          publicKey: await CosmiframeSecureChannel.exportPublicKey(keyPair),
+        }
+      },
+      [InternalMethod.OpenPort]: (port: MessagePort) => {
+        if (!(port instanceof MessagePort)) {
+          throw new CosmiframeInvalidRequestError(
+            'Missing port in open port request'
+          )
+        }
+
+        // Accept messages over the port as if they were received from the
+        // origin that sent it.
+        const transport = createMessagePortTransport(port, context.origin)
+
+        // Close the oldest port once there are too many.
+        if (registration.ports.size >= MAX_PORTS) {
+          const [[oldest, unsubscribe]] = registration.ports
+          unsubscribe()
+          oldest.close?.()
+          registration.ports.delete(oldest)
+        }
+        registration.ports.set(
+          transport,
+          transport.listen((message) =>
+            this.#handle(registration, transport, message)
+          )
+        )
+
+        return true
+      },
+      [InternalMethod.GetSignerCapabilities]: async (
+        chainId: string
+      ): Promise<SignerCapabilities> => {
+        if (!chainId || typeof chainId !== 'string') {
+          throw new CosmiframeInvalidRequestError(
+            'Missing chainId in signer capabilities request'
+          )
+        }
+
+        // Report the parent's capabilities when relaying.
+        if (relay) {
+          return (
+            await relay.callParentMethod<SignerCapabilities>(
+              {
+                internal: true,
+                method: InternalMethod.GetSignerCapabilities,
+                params: [chainId],
+              },
+              {
+                signal: context.signal,
+              }
+            )
+          ).result
+        }
+
+        // Detecting capabilities gets the key and signers for the chain on the
+        // iframe's behalf, so check and limit it like a `getKey` request.
+        const keyRequest: RequestMethodCallMessage = {
+          id: request.id,
+          method: 'getKey',
+          params: [chainId],
+        }
+        const keyContext: RequestContext = {
+          ...context,
+          chainId,
+          internal: false,
+        }
+        const detect = async (): Promise<SignerCapabilities> => {
+          await this.#authorize(options, keyRequest, keyContext)
+
+          return {
+            ...(options.getSignerCapabilities
+              ? await options.getSignerCapabilities(chainId, keyContext)
+              : await this.#detectSignerCapabilities(
+                  options,
+                  chainId,
+                  keyContext
+                )),
+            chainId,
+          }
+        }
+
+        return options.rateLimiter
+          ? options.rateLimiter.run(keyRequest, keyContext, detect)
+          : detect()
+      },
+      [InternalMethod.Batch]: async ({
+        calls,
+        mode,
+      }: BatchRequest): Promise<MethodCallResultMessageNoId[]> => {
+        if (!Array.isArray(calls)) {
+          throw new CosmiframeInvalidRequestError(
+            'Missing calls in batch request'
+          )
+        }
+
+        const processCall = (
+          call: CallParentMethodOptions,
+          index: number
+        ): Promise<MethodCallResultMessageNoId> => {
+          const id = `${request.id}/${index}`
+
+          try {
+            validateRequestMessage(
+              {
+                ...call,
+                id,
+              },
+              options.limits
+            )
+            if (call.internal && call.method === InternalMethod.Batch) {
+              throw new Error('Batches cannot be nested.')
+            }
+          } catch (err) {
+            return Promise.resolve(
+              serializeError(
+                new CosmiframeInvalidRequestError(
+                  `Invalid call at index ${index} in batch request: ${err instanceof Error ? err.message : err}`
+                )
+              )
+            )
+          }
+
+          return this.#processRequest(
+            registration,
+            {
+              ...call,
+              id,
+            },
+            context
+          )
+        }
+
+        if (mode === 'sequence') {
+          const results: MethodCallResultMessageNoId[] = []
+          for (const [index, call] of calls.entries()) {
+            results.push(await processCall(call, index))
+          }
+          return results
+        }
+
+        return Promise.all(calls.map(processCall))
+      },
+    }
+  }
+}
@@ -1,5 +1,19 @@
+export * from './arbitrary'
+export * from './audit'
+export * from './channel'
 export * from './client'
+export * from './codec'
+export * from './decode'
+export * from './dispatcher'
 export * from './error'
+export * from './host'
+export * from './integrity'
+export * from './limiter'
+export * from './manifest'
+export * from './policy'
+export * from './session'
 export * from './signers'
+export * from './transport'
 export * from './types'
 export * from './utils'
+export * from './validate'
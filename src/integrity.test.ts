@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { CosmiframeSignDocModifiedError } from './error'
+import { checkSignDocIntegrity } from './integrity'
+import { DecodedSignDoc } from './types'
+
+const requested: DecodedSignDoc = {
+  signerType: 'direct',
+  signerAddress: 'juno1',
+  chainId: 'juno-1',
+  accountNumber: '1',
+  sequence: '2',
+  memo: '',
+  fee: {
+    amount: [{ denom: 'ujuno', amount: '1000' }],
+    gas: '200000',
+  },
+  messages: [
+    {
+      typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+      value: {
+        fromAddress: 'juno1',
+        toAddress: 'juno2',
+        amount: [{ denom: 'ujuno', amount: '1' }],
+      },
+    },
+  ],
+}
+
+const withFee: DecodedSignDoc = {
+  ...requested,
+  fee: {
+    ...requested.fee,
+    gas: '300000',
+  },
+}
+
+describe('checkSignDocIntegrity', () => {
+  it('accepts unmodified sign docs', async () => {
+    const onModified = vi.fn()
+
+    await expect(
+      checkSignDocIntegrity({ onModified }, requested, { ...requested })
+    ).resolves.toBeUndefined()
+    expect(onModified).not.toHaveBeenCalled()
+  })
+
+  it('accepts declared changes to allowed fields', async () => {
+    const onModified = vi.fn()
+
+    await checkSignDocIntegrity(
+      { allow: ['fee'], onModified },
+      requested,
+      withFee,
+      [{ field: 'fee', reason: 'Adjusted gas.' }]
+    )
+
+    expect(onModified).toHaveBeenCalledWith(
+      [{ field: 'fee', reason: 'Adjusted gas.', declared: true }],
+      { requested, signed: withFee }
+    )
+  })
+
+  it('rejects changes to fields that are not allowed', async () => {
+    const onModified = vi.fn()
+    const signed: DecodedSignDoc = {
+      ...withFee,
+      memo: 'memo',
+    }
+
+    await expect(
+      checkSignDocIntegrity({ allow: ['fee'], onModified }, requested, signed, [
+        { field: 'fee' },
+        { field: 'memo' },
+      ])
+    ).rejects.toThrow(
+      new CosmiframeSignDocModifiedError('Parent modified the sign doc: memo.')
+    )
+    expect(onModified).not.toHaveBeenCalled()
+  })
+
+  it('rejects undeclared changes to allowed fields', async () => {
+    await expect(
+      checkSignDocIntegrity({ allow: ['fee'] }, requested, withFee)
+    ).rejects.toThrow('Parent modified the sign doc: fee (undeclared).')
+  })
+
+  it('rejects any change if no fields are allowed', async () => {
+    await expect(
+      checkSignDocIntegrity(true, requested, withFee, [{ field: 'fee' }])
+    ).rejects.toThrow(CosmiframeSignDocModifiedError)
+  })
+})
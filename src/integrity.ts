@@ -0,0 +1,117 @@
+import { CosmiframeSignDocModifiedError } from './error'
+import {
+  DecodedSignDoc,
+  SignDocChange,
+  SignDocField,
+  SignDocIntegrityOptions,
+  SignDocModification,
+} from './types'
+import { toBase64 } from './utils'
+
+/**
+ * The sign doc fields compared when checking a signed doc.
+ */
+export const SIGN_DOC_FIELDS: SignDocField[] = [
+  'chainId',
+  'accountNumber',
+  'sequence',
+  'fee',
+  'memo',
+  'messages',
+]
+
+/**
+ * Serialize a value so equal values serialize the same, sorting object keys,
+ * dropping undefined values and encoding bytes and bigints as strings.
+ */
+const serialize = (value: unknown): string =>
+  JSON.stringify(value, (_, value) => {
+    if (value instanceof Uint8Array) {
+      return toBase64(value)
+    }
+    if (typeof value === 'bigint') {
+      return value.toString()
+    }
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, value]) => value !== undefined)
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      )
+    }
+    return value
+  })
+
+/**
+ * Returns the fields that differ between two sign docs.
+ */
+export const getChangedSignDocFields = (
+  requested: DecodedSignDoc,
+  signed: DecodedSignDoc
+): SignDocField[] =>
+  SIGN_DOC_FIELDS.filter(
+    (field) => serialize(requested[field]) !== serialize(signed[field])
+  )
+
+/**
+ * Returns the declared modifications for the fields the parent changed, used
+ * by the parent to report them alongside the response. Changes to fields that
+ * were not declared are not reported.
+ */
+export const getDeclaredSignDocModifications = (
+  requested: DecodedSignDoc,
+  signed: DecodedSignDoc,
+  declared: Partial<Record<SignDocField, string>>
+): SignDocModification[] =>
+  getChangedSignDocFields(requested, signed).flatMap((field) =>
+    field in declared ? [{ field, reason: declared[field] }] : []
+  )
+
+/**
+ * Check that the doc the parent signed matches the one the iframe requested,
+ * apart from changes it declared to allowed fields, throwing a
+ * `CosmiframeSignDocModifiedError` with the changes as its data otherwise.
+ * Calls `onModified` with the allowed changes if set, which can throw to
+ * reject them too.
+ */
+export const checkSignDocIntegrity = async (
+  options: true | SignDocIntegrityOptions,
+  requested: DecodedSignDoc,
+  signed: DecodedSignDoc,
+  modifications: SignDocModification[] = []
+) => {
+  const { allow = [], onModified }: SignDocIntegrityOptions =
+    options === true ? {} : options
+
+  const changes = getChangedSignDocFields(requested, signed).map(
+    (field): SignDocChange => {
+      const modification = modifications.find(
+        (modification) => modification.field === field
+      )
+      return {
+        field,
+        reason: modification?.reason,
+        declared: !!modification,
+      }
+    }
+  )
+  if (!changes.length) {
+    return
+  }
+
+  const disallowed = changes.filter(
+    ({ field, declared }) => !declared || !allow.includes(field)
+  )
+  if (disallowed.length) {
+    throw new CosmiframeSignDocModifiedError(
+      `Parent modified the sign doc: ${disallowed
+        .map(({ field, declared }) =>
+          declared ? field : `${field} (undeclared)`
+        )
+        .join(', ')}.`,
+      changes
+    )
+  }
+
+  await onModified?.(changes, { requested, signed })
+}
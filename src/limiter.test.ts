@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+
+import { CosmiframeRateLimitedError } from './error'
+import { CosmiframeRateLimiter } from './limiter'
+import { createMemoryTransports } from './transport'
+import { RequestContext } from './types'
+
+const context: RequestContext = {
+  id: 'request',
+  origin: 'https://app.example',
+  transport: createMemoryTransports({
+    iframeOrigin: 'https://app.example',
+    parentOrigin: 'https://parent.example',
+  }).parent,
+  internal: false,
+  receivedAt: 0,
+  secure: false,
+}
+
+describe('CosmiframeRateLimiter', () => {
+  it('limits concurrent sign requests made to the target', async () => {
+    const limiter = new CosmiframeRateLimiter({
+      maxConcurrentSignerRequests: 1,
+      concurrencyMode: 'reject',
+    })
+
+    let finish = () => {}
+    const pending = limiter.run(
+      { id: '1', method: 'signAmino', params: ['juno-1'] },
+      context,
+      () => new Promise<void>((resolve) => (finish = resolve))
+    )
+
+    await expect(
+      limiter.run(
+        { id: '2', method: 'signDirect', params: ['juno-1'] },
+        context,
+        async () => undefined
+      )
+    ).rejects.toThrow(CosmiframeRateLimitedError)
+
+    // Requests that do not sign are not limited.
+    await expect(
+      limiter.run(
+        { id: '3', method: 'getKey', params: ['juno-1'] },
+        context,
+        async () => 'key'
+      )
+    ).resolves.toBe('key')
+
+    finish()
+    await pending
+
+    await expect(
+      limiter.run(
+        { id: '4', method: 'signDirect', params: ['juno-1'] },
+        context,
+        async () => 'signed'
+      )
+    ).resolves.toBe('signed')
+  })
+})
@@ -0,0 +1,272 @@
+import { defaultCodec } from './codec'
+import { CosmiframeCancelledError, CosmiframeRateLimitedError } from './error'
+import { RequestContext, RequestMethodCallMessage } from './types'
+
+/**
+ * Target methods that ask the user to sign, which Keplr-style targets are
+ * called with directly instead of through signers.
+ */
+const SIGN_METHODS = [
+  'signAmino',
+  'signDirect',
+  'signDirectAux',
+  'signArbitrary',
+  'signEthereum',
+  'signICNSAdr36',
+  'experimentalSignEIP712CosmosTx_v0',
+]
+
+/**
+ * Returns whether or not a request counts toward the concurrency limit: signer
+ * requests, and requests to sign on the target.
+ */
+const isConcurrencyLimited = (
+  { method, signerType }: RequestMethodCallMessage,
+  { signDoc }: RequestContext
+) => !!signerType || !!signDoc || SIGN_METHODS.includes(method)
+
+export type CosmiframeRateLimiterOptions = {
+  /**
+   * The length of the window in milliseconds over which requests are counted.
+   * Defaults to 1 minute.
+   */
+  windowMs?: number
+  /**
+   * The maximum number of requests per origin in a window. Defaults to no
+   * limit.
+   */
+  maxRequests?: number
+  /**
+   * The maximum number of requests per origin in a window for each method,
+   * keyed by method. Defaults to no limit.
+   *
+   * For example:
+   *
+   * { signAmino: 5, signDirect: 5 }
+   */
+  maxRequestsPerMethod?: Partial<Record<string, number>>
+  /**
+   * The maximum number of signer requests per origin pending at once,
+   * including sign requests made to the target, such as Keplr's `signAmino`.
+   * Defaults to no limit.
+   */
+  maxConcurrentSignerRequests?: number
+  /**
+   * Whether signer requests over the concurrency limit wait for a pending one
+   * to finish or are rejected. Defaults to `queue`.
+   */
+  concurrencyMode?: 'queue' | 'reject'
+  /**
+   * Whether or not requests identical to one still pending from the same
+   * origin share its result instead of being dispatched again. Defaults to
+   * false.
+   */
+  dedupe?: boolean
+}
+
+/**
+ * Limits the rate and concurrency of requests per iframe origin, so an app
+ * cannot flood the user with wallet popups. Requests over the limits are
+ * rejected with a `CosmiframeRateLimitedError`. Pass it to `listen` or a host
+ * to apply it to non-internal requests. This should be used by the parent.
+ */
+export class CosmiframeRateLimiter {
+  #options: CosmiframeRateLimiterOptions & { windowMs: number }
+
+  /**
+   * When recent requests were received, keyed by origin and by origin and
+   * method.
+   */
+  #timestamps = new Map<string, number[]>()
+
+  /**
+   * The number of pending signer requests per origin.
+   */
+  #active = new Map<string, number>()
+
+  /**
+   * Signer requests waiting for a slot per origin.
+   */
+  #waiting = new Map<string, (() => void)[]>()
+
+  /**
+   * Pending requests that identical requests share, by key.
+   */
+  #inFlight = new Map<string, Promise<unknown>>()
+
+  constructor({
+    windowMs = 60_000,
+    concurrencyMode = 'queue',
+    ...options
+  }: CosmiframeRateLimiterOptions = {}) {
+    this.#options = {
+      windowMs,
+      concurrencyMode,
+      ...options,
+    }
+  }
+
+  /**
+   * Run the handler for a request within the limits, sharing the result of an
+   * identical pending request if deduplicating. Rejects with a
+   * `CosmiframeRateLimitedError` if a limit is exceeded.
+   */
+  async run<T>(
+    request: RequestMethodCallMessage,
+    context: RequestContext,
+    handler: () => Promise<T>
+  ): Promise<T> {
+    const { origin, signal } = context
+    const { dedupe } = this.#options
+
+    const key = dedupe
+      ? JSON.stringify(
+          defaultCodec.encode([
+            origin,
+            request.method,
+            request.chainId,
+            request.signerType,
+            request.params,
+          ])
+        )
+      : undefined
+    if (key !== undefined && this.#inFlight.has(key)) {
+      return this.#inFlight.get(key) as Promise<T>
+    }
+
+    this.#count(origin, request.method)
+
+    const promise = (async () => {
+      if (!isConcurrencyLimited(request, context)) {
+        return handler()
+      }
+
+      await this.#acquire(origin, signal)
+      try {
+        return await handler()
+      } finally {
+        this.#release(origin)
+      }
+    })()
+
+    if (key !== undefined) {
+      this.#inFlight.set(key, promise)
+      promise.finally(() => this.#inFlight.delete(key)).catch(() => undefined)
+    }
+
+    return promise
+  }
+
+  /**
+   * Forget the requests counted for an origin, or all origins if none is
+   * provided.
+   */
+  reset(origin?: string) {
+    if (origin === undefined) {
+      this.#timestamps.clear()
+      return
+    }
+
+    for (const key of [...this.#timestamps.keys()]) {
+      if (key === origin || key.startsWith(`${origin} `)) {
+        this.#timestamps.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Count a request, throwing if it exceeds the rate limits.
+   */
+  #count(origin: string, method: string) {
+    const { windowMs, maxRequests, maxRequestsPerMethod } = this.#options
+    const now = Date.now()
+
+    const limits: [string, number | undefined, string][] = [
+      [origin, maxRequests, `Origin '${origin}' made too many requests.`],
+      [
+        `${origin} ${method}`,
+        maxRequestsPerMethod?.[method],
+        `Origin '${origin}' made too many '${method}' requests.`,
+      ],
+    ]
+
+    // Check every limit before counting, so rejected requests are not counted.
+    const recent = limits.map(([key, max, message]) => {
+      const timestamps = (this.#timestamps.get(key) || []).filter(
+        (timestamp) => timestamp > now - windowMs
+      )
+
+      if (max !== undefined && timestamps.length >= max) {
+        throw new CosmiframeRateLimitedError(message, {
+          retryAfter: timestamps[timestamps.length - max] + windowMs - now,
+        })
+      }
+
+      return [key, timestamps] as const
+    })
+
+    recent.forEach(([key, timestamps]) =>
+      this.#timestamps.set(key, [...timestamps, now])
+    )
+  }
+
+  /**
+   * Wait for a signer request slot for an origin, throwing if none is free and
+   * not queueing.
+   */
+  async #acquire(origin: string, signal?: AbortSignal) {
+    const { maxConcurrentSignerRequests, concurrencyMode } = this.#options
+
+    if (
+      maxConcurrentSignerRequests !== undefined &&
+      (this.#active.get(origin) || 0) >= maxConcurrentSignerRequests
+    ) {
+      if (concurrencyMode === 'reject') {
+        throw new CosmiframeRateLimitedError(
+          `Origin '${origin}' has too many pending signer requests.`
+        )
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const waiting = this.#waiting.get(origin) || []
+        this.#waiting.set(origin, waiting)
+
+        const next = () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }
+        const onAbort = () => {
+          waiting.splice(waiting.indexOf(next), 1)
+          reject(new CosmiframeCancelledError())
+        }
+
+        waiting.push(next)
+        signal?.addEventListener('abort', onAbort)
+      })
+
+      // The slot was handed over by the request that released it.
+      return
+    }
+
+    this.#active.set(origin, (this.#active.get(origin) || 0) + 1)
+  }
+
+  /**
+   * Release a signer request slot for an origin, handing it to the next
+   * waiting request if any.
+   */
+  #release(origin: string) {
+    const next = this.#waiting.get(origin)?.shift()
+    if (next) {
+      next()
+      return
+    }
+
+    const active = (this.#active.get(origin) || 1) - 1
+    if (active) {
+      this.#active.set(origin, active)
+    } else {
+      this.#active.delete(origin)
+    }
+  }
+}
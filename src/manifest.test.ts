@@ -0,0 +1,207 @@
+// @vitest-environment jsdom
+
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import { Cosmiframe } from './client'
+import { CosmiframeTimeoutError } from './error'
+import { CosmiframeHost } from './host'
+import {
+  CosmiframeOriginManifest,
+  signOriginManifest,
+  verifyOriginManifest,
+} from './manifest'
+import { createMemoryTransports } from './transport'
+import { OriginManifest, SignedOriginManifest } from './types'
+
+const parentOrigin = 'https://parent.example'
+
+let privateKey: CryptoKey
+let publicKey: JsonWebKey
+
+beforeAll(async () => {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify']
+  )
+  privateKey = keyPair.privateKey
+  publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+})
+
+const sign = (manifest: Partial<OriginManifest> = {}) =>
+  signOriginManifest(
+    {
+      origins: [parentOrigin],
+      issuedAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+      ...manifest,
+    },
+    privateKey
+  )
+
+describe('verifyOriginManifest', () => {
+  it('accepts manifests signed with the key', async () => {
+    await expect(
+      verifyOriginManifest(await sign(), publicKey)
+    ).resolves.toMatchObject({
+      origins: [parentOrigin],
+    })
+  })
+
+  it('rejects tampered manifests', async () => {
+    const signed = await sign()
+    const payload = signed.payload.replace(parentOrigin, 'https://evil.com')
+
+    await expect(
+      verifyOriginManifest({ ...signed, payload }, publicKey)
+    ).rejects.toThrow('Invalid origin manifest signature.')
+  })
+
+  it('rejects manifests signed with another key', async () => {
+    const { privateKey: otherKey } = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )
+    const signed = await signOriginManifest(
+      {
+        origins: [parentOrigin],
+        issuedAt: Date.now(),
+        expiresAt: Date.now() + 60_000,
+      },
+      otherKey
+    )
+
+    await expect(verifyOriginManifest(signed, publicKey)).rejects.toThrow(
+      'Invalid origin manifest signature.'
+    )
+  })
+
+  it('rejects expired manifests', async () => {
+    await expect(
+      verifyOriginManifest(await sign({ expiresAt: Date.now() }), publicKey)
+    ).rejects.toThrow('Origin manifest expired.')
+  })
+
+  it('rejects manifests that allow all origins', async () => {
+    await expect(
+      verifyOriginManifest(await sign({ origins: ['*'] }), publicKey)
+    ).rejects.toThrow('Origin manifest cannot allow all origins.')
+  })
+})
+
+describe('CosmiframeOriginManifest', () => {
+  it('rejects manifests issued before the cached one', async () => {
+    const newer = await sign({
+      origins: ['https://new.example'],
+      issuedAt: Date.now(),
+    })
+    const older = await sign({
+      origins: ['https://old.example'],
+      issuedAt: Date.now() - 1_000,
+    })
+    const fetch = vi
+      .fn<() => Promise<SignedOriginManifest>>()
+      .mockResolvedValueOnce(newer)
+      .mockResolvedValueOnce(older)
+
+    const onError = vi.fn()
+    const storage = new Map<string, string>()
+    const options = {
+      publicKey,
+      fetch,
+      onError,
+      storage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => void storage.set(key, value),
+        removeItem: (key: string) => void storage.delete(key),
+      },
+    }
+
+    await expect(new CosmiframeOriginManifest(options).load()).resolves.toEqual(
+      ['https://new.example']
+    )
+    // A new instance fetches again, but keeps the newer cached manifest.
+    await expect(new CosmiframeOriginManifest(options).load()).resolves.toEqual(
+      ['https://new.example']
+    )
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(onError).toHaveBeenCalledOnce()
+    expect(onError).toHaveBeenCalledWith(
+      'Failed to load origin manifest.',
+      new Error('Origin manifest is older than the cached one.')
+    )
+  })
+
+  it('loads again once the manifest expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+
+    const fetch = vi
+      .fn<() => Promise<SignedOriginManifest>>()
+      .mockResolvedValueOnce(await sign({ expiresAt: Date.now() + 1_000 }))
+      .mockResolvedValueOnce(
+        await sign({ origins: ['https://next.example'], issuedAt: Date.now() })
+      )
+    const manifest = new CosmiframeOriginManifest({ publicKey, fetch })
+
+    await expect(manifest.load()).resolves.toEqual([parentOrigin])
+    await expect(manifest.load()).resolves.toEqual([parentOrigin])
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    vi.setSystemTime(Date.now() + 1_000)
+    await expect(manifest.load()).resolves.toEqual(['https://next.example'])
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('Cosmiframe', () => {
+  it('stops trusting origins from a manifest once it expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+
+    const { iframe, parent } = createMemoryTransports({
+      iframeOrigin: 'https://app.example',
+      parentOrigin,
+    })
+    const host = new CosmiframeHost({
+      target: {
+        getKey: () => 'key',
+      },
+      getOfflineSignerDirect: () => {
+        throw new Error('Unused.')
+      },
+      getOfflineSignerAmino: () => {
+        throw new Error('Unused.')
+      },
+    })
+    const unregister = host.register(parent)
+
+    const fetch = vi
+      .fn<() => Promise<SignedOriginManifest>>()
+      .mockResolvedValueOnce(await sign({ expiresAt: Date.now() + 1_000 }))
+      .mockRejectedValueOnce(new Error('Offline.'))
+    const client = new Cosmiframe(['https://fallback.example'], {
+      manifest: new CosmiframeOriginManifest({ publicKey, fetch }),
+      transport: iframe,
+    })
+
+    await expect(
+      client.callParentMethod({ method: 'getKey', params: ['juno-1'] })
+    ).resolves.toMatchObject({ result: 'key', origin: parentOrigin })
+
+    // Fall back to the origins passed in once the manifest expires and cannot
+    // be loaded again.
+    vi.setSystemTime(Date.now() + 1_000)
+    await expect(
+      client.callParentMethod({ method: 'getKey', params: ['juno-1'] }, 100)
+    ).rejects.toThrow(CosmiframeTimeoutError)
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    client.destroy()
+    unregister()
+  })
+})
@@ -0,0 +1,250 @@
+import {
+  CosmiframeStorage,
+  ErrorHandler,
+  Origin,
+  OriginManifest,
+  SignedOriginManifest,
+} from './types'
+import {
+  UNSAFE_ALLOW_ANY_ORIGIN,
+  createMemoryStorage,
+  fromBase64,
+  toBase64,
+} from './utils'
+
+const ECDSA_PARAMS: EcKeyImportParams = {
+  name: 'ECDSA',
+  namedCurve: 'P-256',
+}
+
+const SIGNATURE_PARAMS: EcdsaParams = {
+  name: 'ECDSA',
+  hash: 'SHA-256',
+}
+
+const encoder = new TextEncoder()
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+
+/**
+ * Sign an origin manifest with an ECDSA P-256 private key. This should be used
+ * by whoever publishes the manifest.
+ */
+export const signOriginManifest = async (
+  manifest: OriginManifest,
+  privateKey: CryptoKey
+): Promise<SignedOriginManifest> => {
+  const payload = JSON.stringify(manifest)
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_PARAMS,
+    privateKey,
+    encoder.encode(payload)
+  )
+
+  return {
+    payload,
+    signature: toBase64(new Uint8Array(signature)),
+  }
+}
+
+/**
+ * Verify the signature of an origin manifest with an ECDSA P-256 public key
+ * and check that it has not expired, returning the manifest. Throws an error
+ * if it is invalid.
+ */
+export const verifyOriginManifest = async (
+  { payload, signature }: SignedOriginManifest,
+  publicKey: JsonWebKey
+): Promise<OriginManifest> => {
+  if (typeof payload !== 'string' || typeof signature !== 'string') {
+    throw new Error('Origin manifest is missing its payload or signature.')
+  }
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    publicKey,
+    ECDSA_PARAMS,
+    false,
+    ['verify']
+  )
+  const valid = await crypto.subtle.verify(
+    SIGNATURE_PARAMS,
+    key,
+    fromBase64(signature),
+    encoder.encode(payload)
+  )
+  if (!valid) {
+    throw new Error('Invalid origin manifest signature.')
+  }
+
+  const manifest = JSON.parse(payload)
+  if (
+    !manifest ||
+    typeof manifest !== 'object' ||
+    !isStringArray(manifest.origins) ||
+    (manifest.patterns !== undefined && !isStringArray(manifest.patterns)) ||
+    typeof manifest.issuedAt !== 'number' ||
+    typeof manifest.expiresAt !== 'number'
+  ) {
+    throw new Error('Invalid origin manifest.')
+  }
+
+  if (
+    manifest.origins.includes('*') ||
+    manifest.origins.includes(UNSAFE_ALLOW_ANY_ORIGIN)
+  ) {
+    throw new Error('Origin manifest cannot allow all origins.')
+  }
+
+  // Throw if any pattern is not a valid regular expression.
+  manifest.patterns?.forEach((pattern: string) => new RegExp(pattern))
+
+  if (manifest.expiresAt <= Date.now()) {
+    throw new Error('Origin manifest expired.')
+  }
+
+  return manifest
+}
+
+export type CosmiframeOriginManifestOptions = {
+  /**
+   * The ECDSA P-256 public key manifests must be signed with.
+   */
+  publicKey: JsonWebKey
+  /**
+   * Loads the signed manifest, such as by fetching it from a URL.
+   *
+   * For example:
+   *
+   * () => fetch('https://daodao.zone/cosmiframe.json').then((r) => r.json())
+   */
+  fetch: () => Promise<SignedOriginManifest>
+  /**
+   * Where the last verified manifest is cached, such as `localStorage`, so it
+   * can be used when loading fails. Defaults to memory.
+   */
+  storage?: CosmiframeStorage
+  /**
+   * The key the manifest is cached under. Defaults to
+   * `cosmiframe_origin_manifest`.
+   */
+  key?: string
+  /**
+   * Called with errors loading or caching the manifest, after which the cached
+   * manifest is used. Errors are ignored by default.
+   */
+  onError?: ErrorHandler
+}
+
+/**
+ * Loads allowed parent origins from a signed manifest, verifying its signature
+ * and expiry, and caches it. Pass it to the client to allow the origins it
+ * lists. This should be used by the iframe.
+ */
+export class CosmiframeOriginManifest {
+  #publicKey: JsonWebKey
+  #fetch: () => Promise<SignedOriginManifest>
+  #storage: CosmiframeStorage
+  #key: string
+  #onError?: ErrorHandler
+
+  /**
+   * The last verified manifest.
+   */
+  #manifest?: OriginManifest
+
+  /**
+   * Pending load, shared by concurrent calls.
+   */
+  #loading?: Promise<OriginManifest | undefined>
+
+  constructor({
+    publicKey,
+    fetch,
+    storage = createMemoryStorage(),
+    key = 'cosmiframe_origin_manifest',
+    onError,
+  }: CosmiframeOriginManifestOptions) {
+    this.#publicKey = publicKey
+    this.#fetch = fetch
+    this.#storage = storage
+    this.#key = key
+    this.#onError = onError
+  }
+
+  /**
+   * The last verified manifest, if any.
+   */
+  get manifest(): OriginManifest | undefined {
+    return this.#manifest
+  }
+
+  /**
+   * Load the allowed origins, fetching the manifest unless the last verified
+   * one has not expired. If fetching or verifying fails, the cached manifest
+   * is used. Returns undefined if there is no valid manifest.
+   */
+  async load(): Promise<Origin[] | undefined> {
+    if (!this.#manifest || this.#manifest.expiresAt <= Date.now()) {
+      if (!this.#loading) {
+        this.#loading = this.#load().finally(() => {
+          this.#loading = undefined
+        })
+      }
+
+      this.#manifest = await this.#loading
+    }
+
+    return (
+      this.#manifest && [
+        ...this.#manifest.origins,
+        ...(this.#manifest.patterns || []).map(
+          (pattern) => new RegExp(`^(?:${pattern})$`)
+        ),
+      ]
+    )
+  }
+
+  async #load(): Promise<OriginManifest | undefined> {
+    const cached = await this.#readCached()
+
+    let signed: SignedOriginManifest
+    let manifest: OriginManifest
+    try {
+      signed = await this.#fetch()
+      manifest = await verifyOriginManifest(signed, this.#publicKey)
+
+      // Reject manifests issued before the cached one, so an old manifest
+      // cannot be served again to allow removed origins.
+      if (cached && manifest.issuedAt < cached.issuedAt) {
+        throw new Error('Origin manifest is older than the cached one.')
+      }
+    } catch (err) {
+      this.#onError?.('Failed to load origin manifest.', err)
+      return cached
+    }
+
+    try {
+      await this.#storage.setItem(this.#key, JSON.stringify(signed))
+    } catch (err) {
+      this.#onError?.('Failed to cache origin manifest.', err)
+    }
+
+    return manifest
+  }
+
+  /**
+   * Read and verify the cached manifest, ignoring it if it is invalid.
+   */
+  async #readCached(): Promise<OriginManifest | undefined> {
+    try {
+      const value = await this.#storage.getItem(this.#key)
+      return value
+        ? await verifyOriginManifest(JSON.parse(value), this.#publicKey)
+        : undefined
+    } catch {
+      return undefined
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+
+import { evaluatePolicy } from './policy'
+import { DecodedSignDoc, ListenPolicy } from './types'
+
+const policy: ListenPolicy = {
+  chainIds: {
+    deny: ['osmosis-1'],
+  },
+}
+
+const context = {
+  origin: 'https://app.example',
+}
+
+describe('evaluatePolicy', () => {
+  it('checks the chain ID of signer requests', () => {
+    expect(
+      evaluatePolicy(
+        policy,
+        {
+          method: 'signAmino',
+          params: [],
+          chainId: 'osmosis-1',
+          signerType: 'amino',
+        },
+        context
+      ).allowed
+    ).toBe(false)
+  })
+
+  it('checks chain IDs passed to target methods', () => {
+    for (const [method, params] of [
+      ['enable', ['osmosis-1']],
+      ['enable', [['juno-1', 'osmosis-1']]],
+      ['getKey', ['osmosis-1']],
+      ['signArbitrary', ['osmosis-1', 'osmo1', 'data']],
+    ] as const) {
+      expect(
+        evaluatePolicy(policy, { method, params: [...params] }, context)
+      ).toEqual({
+        allowed: false,
+        reason: "Chain ID 'osmosis-1' is not allowed.",
+      })
+    }
+
+    expect(
+      evaluatePolicy(policy, { method: 'getKey', params: ['juno-1'] }, context)
+        .allowed
+    ).toBe(true)
+  })
+
+  it('ignores the params of other target methods', () => {
+    expect(
+      evaluatePolicy(
+        policy,
+        { method: 'experimentalSuggestChain', params: ['osmosis-1'] },
+        context
+      ).allowed
+    ).toBe(true)
+  })
+})
+
+describe('evaluatePolicy message types', () => {
+  const policy: ListenPolicy = {
+    messageTypes: {
+      deny: ['/cosmos.authz.v1beta1.MsgGrant'],
+    },
+  }
+
+  const signDoc = (
+    messages: DecodedSignDoc['messages'],
+    signerType: DecodedSignDoc['signerType'] = 'amino'
+  ): DecodedSignDoc => ({
+    signerType,
+    signerAddress: 'juno1',
+    chainId: 'juno-1',
+    accountNumber: '1',
+    sequence: '2',
+    memo: '',
+    fee: {
+      amount: [],
+      gas: '200000',
+    },
+    messages,
+  })
+
+  const signAmino = {
+    method: 'signAmino',
+    params: [],
+    chainId: 'juno-1',
+    signerType: 'amino' as const,
+  }
+
+  it('checks amino messages converted to type URLs', () => {
+    expect(
+      evaluatePolicy(policy, signAmino, {
+        ...context,
+        signDoc: signDoc([
+          {
+            typeUrl: '/cosmos.authz.v1beta1.MsgGrant',
+            aminoType: 'cosmos-sdk/MsgGrant',
+            value: {},
+          },
+        ]),
+      })
+    ).toEqual({
+      allowed: false,
+      reason: "Message type '/cosmos.authz.v1beta1.MsgGrant' is not allowed.",
+    })
+  })
+
+  it('denies amino messages without type URLs unless explicitly allowed', () => {
+    const unconverted = {
+      ...context,
+      signDoc: signDoc([{ aminoType: 'cosmos-sdk/MsgGrant', value: {} }]),
+    }
+
+    expect(evaluatePolicy(policy, signAmino, unconverted)).toEqual({
+      allowed: false,
+      reason: "Message type 'cosmos-sdk/MsgGrant' is not allowed.",
+    })
+    expect(
+      evaluatePolicy(
+        { messageTypes: { allow: ['cosmos-sdk/MsgGrant'] } },
+        signAmino,
+        unconverted
+      ).allowed
+    ).toBe(true)
+  })
+
+  it('denies transactions whose messages cannot be decoded', () => {
+    for (const method of [
+      'signDirectAux',
+      'experimentalSignEIP712CosmosTx_v0',
+      'sendTx',
+    ]) {
+      expect(
+        evaluatePolicy(
+          policy,
+          { method, params: ['juno-1', 'juno1', {}] },
+          context
+        )
+      ).toEqual({
+        allowed: false,
+        reason: `Message types of '${method}' requests cannot be checked.`,
+      })
+    }
+
+    expect(
+      evaluatePolicy(
+        {},
+        { method: 'signDirectAux', params: ['juno-1', 'juno1', {}] },
+        context
+      ).allowed
+    ).toBe(true)
+  })
+
+  it('allows arbitrary data', () => {
+    expect(
+      evaluatePolicy(
+        policy,
+        { method: 'signArbitrary', params: ['juno-1', 'juno1', 'data'] },
+        {
+          ...context,
+          signDoc: signDoc([{ aminoType: 'sign/MsgSignData', value: {} }]),
+        }
+      ).allowed
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,175 @@
+import { CosmiframeErrorCode } from './error'
+import {
+  AuthorizeResult,
+  HostIframeOptions,
+  ListenPolicy,
+  PolicyList,
+  RequestContext,
+  RequestMethodCallMessage,
+} from './types'
+import { getRequestChainIds, isOriginAllowed } from './utils'
+
+/**
+ * The result of evaluating a policy or authorization hook.
+ */
+export type Authorization = {
+  allowed: boolean
+  reason?: string
+  /**
+   * The code of the error to reject the request with if not allowed.
+   */
+  code?: CosmiframeErrorCode
+}
+
+/**
+ * Methods that sign or broadcast transactions, whose messages are checked
+ * against the policy's message types.
+ */
+const TRANSACTION_METHODS = [
+  'signAmino',
+  'signDirect',
+  'signDirectAux',
+  'experimentalSignEIP712CosmosTx_v0',
+  'sendTx',
+]
+
+/**
+ * Returns whether or not a list allows a value, given a function that returns
+ * whether or not some values contain it.
+ */
+const isAllowedByList = <T>(
+  list: PolicyList<T> | undefined,
+  contains: (values: T[]) => boolean
+) =>
+  !list ||
+  (!(list.deny && contains(list.deny)) && (!list.allow || contains(list.allow)))
+
+/**
+ * Evaluate a policy against a request.
+ */
+export const evaluatePolicy = (
+  policy: ListenPolicy,
+  request: Pick<
+    RequestMethodCallMessage,
+    'method' | 'params' | 'chainId' | 'signerType' | 'internal'
+  >,
+  context: Pick<RequestContext, 'origin' | 'signDoc' | 'relayedFrom'>
+): Authorization => {
+  const { origins, maxRelayDepth, chainIds, methods, messageTypes } = policy
+  const relayedFrom = context.relayedFrom || []
+
+  const deniedOrigin = [...relayedFrom, context.origin].find(
+    (origin) =>
+      !isAllowedByList(origins, (values) => isOriginAllowed(values, origin))
+  )
+  if (deniedOrigin !== undefined) {
+    return {
+      allowed: false,
+      reason: `Origin '${deniedOrigin}' is not allowed.`,
+      code: CosmiframeErrorCode.OriginDenied,
+    }
+  }
+
+  if (maxRelayDepth !== undefined && relayedFrom.length > maxRelayDepth) {
+    return {
+      allowed: false,
+      reason: `Requests relayed through more than ${maxRelayDepth} frames are not allowed.`,
+      code: CosmiframeErrorCode.OriginDenied,
+    }
+  }
+
+  if (!isAllowedByList(methods, (values) => values.includes(request.method))) {
+    return {
+      allowed: false,
+      reason: `Method '${request.method}' is not allowed.`,
+    }
+  }
+
+  for (const chainId of new Set([
+    ...getRequestChainIds(request),
+    context.signDoc?.chainId,
+  ])) {
+    if (
+      chainId &&
+      !isAllowedByList(chainIds, (values) => values.includes(chainId))
+    ) {
+      return {
+        allowed: false,
+        reason: `Chain ID '${chainId}' is not allowed.`,
+      }
+    }
+  }
+
+  if (messageTypes) {
+    // Deny transactions whose messages cannot be checked.
+    if (!context.signDoc && TRANSACTION_METHODS.includes(request.method)) {
+      return {
+        allowed: false,
+        reason: `Message types of '${request.method}' requests cannot be checked.`,
+      }
+    }
+
+    const deniedMessage = context.signDoc?.messages.find(
+      ({ typeUrl, aminoType }) =>
+        // Messages without a type URL, such as amino messages that could not
+        // be converted, may be denied by type URL, so only allow them if their
+        // amino type is explicitly allowed. ADR-036 messages have no type URL.
+        typeUrl === undefined && request.method !== 'signArbitrary'
+          ? !aminoType ||
+            !messageTypes.allow?.includes(aminoType) ||
+            !!messageTypes.deny?.includes(aminoType)
+          : !isAllowedByList(messageTypes, (values) =>
+              values.some((value) => value === typeUrl || value === aminoType)
+            )
+    )
+    if (deniedMessage) {
+      return {
+        allowed: false,
+        reason: `Message type '${
+          deniedMessage.typeUrl || deniedMessage.aminoType
+        }' is not allowed.`,
+      }
+    }
+  }
+
+  return {
+    allowed: true,
+  }
+}
+
+/**
+ * Apply the listening parent's policy and authorization hook to a request,
+ * returning whether or not it is allowed and why.
+ */
+export const authorizeRequest = async (
+  request: RequestMethodCallMessage,
+  context: RequestContext,
+  { policy, authorize }: Pick<HostIframeOptions, 'policy' | 'authorize'>
+): Promise<Authorization> => {
+  const resolvedPolicy =
+    typeof policy === 'function'
+      ? await policy(context.origin, context)
+      : policy
+  if (resolvedPolicy) {
+    const authorization = evaluatePolicy(resolvedPolicy, request, context)
+    if (!authorization.allowed) {
+      return authorization
+    }
+  }
+
+  if (authorize) {
+    const result: AuthorizeResult = await authorize(request, context)
+    const authorization =
+      typeof result === 'boolean' ? { allowed: result } : result
+    if (!authorization.allowed) {
+      return {
+        allowed: false,
+        reason: authorization.reason || 'Request denied by parent.',
+      }
+    }
+  }
+
+  return {
+    allowed: true,
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+
+import { CosmiframeSessions } from './session'
+
+const origin = 'https://app.example'
+
+/**
+ * Create storage backed by a map, with the given entries.
+ */
+const createStorage = (entries: [string, string][] = []) => {
+  const storage = new Map(entries)
+  return {
+    storage,
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => void storage.set(key, value),
+    removeItem: (key: string) => void storage.delete(key),
+  }
+}
+
+describe('CosmiframeSessions', () => {
+  it('does not restore revoked sessions when recording requests', async () => {
+    const sessions = new CosmiframeSessions()
+
+    await sessions.record(
+      origin,
+      { id: '1', method: 'enable', params: ['juno-1'] },
+      undefined
+    )
+    expect(await sessions.list()).toMatchObject([
+      { origin, chainIds: ['juno-1'] },
+    ])
+
+    await sessions.revoke(origin)
+    await sessions.record(
+      origin,
+      { id: '2', method: 'enable', params: ['juno-1'] },
+      undefined
+    )
+    expect(await sessions.isRevoked(origin)).toBe(true)
+    expect(await sessions.list()).toEqual([])
+  })
+
+  it('restores revoked sessions when granted', async () => {
+    const sessions = new CosmiframeSessions()
+
+    await sessions.revoke(origin)
+    await sessions.grant(origin, { chainIds: ['juno-1'] })
+
+    expect(await sessions.isRevoked(origin)).toBe(false)
+    expect(await sessions.get(origin)).toMatchObject({
+      chainIds: ['juno-1'],
+    })
+  })
+  it('persists sessions to storage', async () => {
+    const storage = createStorage()
+    const options = {
+      storage,
+      key: 'sessions',
+    }
+
+    await new CosmiframeSessions(options).grant(origin, {
+      chainIds: ['juno-1'],
+      accounts: [{ chainId: 'juno-1', address: 'juno1' }],
+    })
+    expect([...storage.storage.keys()]).toEqual(['sessions'])
+
+    // Sessions are restored from storage.
+    const sessions = new CosmiframeSessions(options)
+    expect(await sessions.get(origin)).toMatchObject({
+      chainIds: ['juno-1'],
+      accounts: [{ chainId: 'juno-1', address: 'juno1' }],
+    })
+
+    await sessions.revoke(origin)
+    expect(await new CosmiframeSessions(options).isRevoked(origin)).toBe(true)
+  })
+
+  it('treats corrupt storage as empty', async () => {
+    for (const value of ['{', 'null', '[]']) {
+      const sessions = new CosmiframeSessions({
+        storage: createStorage([['cosmiframe_sessions', value]]),
+      })
+
+      expect(await sessions.list()).toEqual([])
+      await sessions.grant(origin, { chainIds: ['juno-1'] })
+      expect(await sessions.get(origin)).toMatchObject({
+        chainIds: ['juno-1'],
+      })
+    }
+  })
+})
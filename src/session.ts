@@ -0,0 +1,238 @@
+import {
+  CosmiframeStorage,
+  RequestMethodCallMessage,
+  Session,
+  SessionAccount,
+} from './types'
+import { createMemoryStorage } from './utils'
+
+export type CosmiframeSessionsOptions = {
+  /**
+   * Where sessions are persisted, such as `localStorage`. Defaults to memory.
+   */
+  storage?: CosmiframeStorage
+  /**
+   * The key sessions are stored under. Defaults to `cosmiframe_sessions`.
+   */
+  key?: string
+}
+
+/**
+ * Tracks the permissions granted to iframe origins, such as which chain IDs
+ * were enabled and which accounts were exposed. Pass it to `listen` or a host
+ * to record sessions automatically and reject requests from revoked origins.
+ * This should be used by the parent.
+ */
+export class CosmiframeSessions {
+  #storage: CosmiframeStorage
+  #key: string
+
+  /**
+   * Pending write, used to serialize updates so concurrent requests do not
+   * overwrite each other.
+   */
+  #pending: Promise<unknown> = Promise.resolve()
+
+  constructor({
+    storage = createMemoryStorage(),
+    key = 'cosmiframe_sessions',
+  }: CosmiframeSessionsOptions = {}) {
+    this.#storage = storage
+    this.#key = key
+  }
+
+  /**
+   * List active sessions, excluding revoked ones.
+   */
+  async list(): Promise<Session[]> {
+    return Object.values(await this.#read()).filter(
+      ({ revokedAt }) => revokedAt === undefined
+    )
+  }
+
+  /**
+   * Get the session for an origin, including if it was revoked.
+   */
+  async get(origin: string): Promise<Session | undefined> {
+    return (await this.#read())[origin]
+  }
+
+  /**
+   * Grant chain IDs and accounts to an origin, creating its session or
+   * restoring it if revoked.
+   */
+  grant(
+    origin: string,
+    grants: { chainIds?: string[]; accounts?: SessionAccount[] }
+  ): Promise<Session> {
+    return this.#grant(origin, grants, true)
+  }
+
+  /**
+   * Grant chain IDs and accounts to an origin, only restoring its session if
+   * revoked when `restore` is set.
+   */
+  #grant(
+    origin: string,
+    {
+      chainIds = [],
+      accounts = [],
+    }: { chainIds?: string[]; accounts?: SessionAccount[] },
+    restore: boolean
+  ): Promise<Session> {
+    return this.#update(async (sessions) => {
+      if (!restore && sessions[origin]?.revokedAt !== undefined) {
+        return sessions[origin]
+      }
+
+      const now = Date.now()
+      const existing =
+        sessions[origin]?.revokedAt === undefined ? sessions[origin] : undefined
+
+      const session: Session = {
+        origin,
+        chainIds: [...new Set([...(existing?.chainIds || []), ...chainIds])],
+        accounts: [
+          ...(existing?.accounts || []).filter(
+            (account) =>
+              !accounts.some(
+                ({ chainId, address }) =>
+                  chainId === account.chainId && address === account.address
+              )
+          ),
+          ...accounts,
+        ],
+        grantedAt: existing?.grantedAt ?? now,
+        updatedAt: now,
+      }
+      sessions[origin] = session
+
+      return session
+    })
+  }
+
+  /**
+   * Revoke an origin's session. Subsequent requests from the origin are
+   * rejected until its session is restored with `grant`.
+   */
+  revoke(origin: string): Promise<void> {
+    return this.#update(async (sessions) => {
+      const now = Date.now()
+      sessions[origin] = {
+        origin,
+        chainIds: [],
+        accounts: [],
+        grantedAt: sessions[origin]?.grantedAt ?? now,
+        updatedAt: now,
+        revokedAt: now,
+      }
+    })
+  }
+
+  /**
+   * Returns whether or not an origin's session was revoked.
+   */
+  async isRevoked(origin: string): Promise<boolean> {
+    return (await this.get(origin))?.revokedAt !== undefined
+  }
+
+  /**
+   * Record the chain IDs and accounts exposed by a successful request.
+   * Requests that do not expose any are ignored, and revoked sessions are not
+   * restored.
+   */
+  async record(
+    origin: string,
+    { method, params, chainId, signerType }: RequestMethodCallMessage,
+    response: unknown
+  ): Promise<void> {
+    // Keplr's `enable` accepts a chain ID or a list of them.
+    if (!signerType && method === 'enable') {
+      await this.#grant(
+        origin,
+        {
+          chainIds: [params[0]].flat().filter((id) => typeof id === 'string'),
+        },
+        false
+      )
+    } else if (
+      signerType &&
+      chainId &&
+      method === 'getAccounts' &&
+      Array.isArray(response)
+    ) {
+      await this.#grant(
+        origin,
+        {
+          accounts: response.map(({ address }) => ({
+            chainId,
+            address,
+          })),
+        },
+        false
+      )
+    } else if (
+      !signerType &&
+      method === 'getKey' &&
+      typeof params[0] === 'string' &&
+      response &&
+      typeof response === 'object' &&
+      'bech32Address' in response &&
+      typeof response.bech32Address === 'string'
+    ) {
+      await this.#grant(
+        origin,
+        {
+          accounts: [
+            {
+              chainId: params[0],
+              address: response.bech32Address,
+            },
+          ],
+        },
+        false
+      )
+    }
+  }
+
+  /**
+   * Read the stored sessions, treating corrupt storage as empty so it does not
+   * break every request.
+   */
+  async #read(): Promise<Record<string, Session>> {
+    const value = await this.#storage.getItem(this.#key)
+    if (!value) {
+      return {}
+    }
+
+    try {
+      const sessions = JSON.parse(value)
+      return sessions &&
+        typeof sessions === 'object' &&
+        !Array.isArray(sessions)
+        ? sessions
+        : {}
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Read, update and write sessions, one update at a time.
+   */
+  #update<T>(
+    update: (sessions: Record<string, Session>) => Promise<T>
+  ): Promise<T> {
+    const result = this.#pending.then(async () => {
+      const sessions = await this.#read()
+      const value = await update(sessions)
+      await this.#storage.setItem(this.#key, JSON.stringify(sessions))
+      return value
+    })
+
+    // Continue with the next update even if this one fails.
+    this.#pending = result.catch(() => undefined)
+
+    return result
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  CosmiframeAminoSigner,
+  CosmiframeDirectSigner,
+  CosmiframeEitherSigner,
+} from './signers'
+import { ParentMethodCaller } from './types'
+
+const createParent = () => {
+  const callParentMethod = vi.fn(async () => ({
+    result: true,
+    origin: 'https://parent.example',
+  }))
+  return {
+    callParentMethod,
+    parent: { callParentMethod } as ParentMethodCaller,
+  }
+}
+
+describe('signers', () => {
+  it('sign and verify arbitrary data with their signer type', async () => {
+    for (const [Signer, signerType] of [
+      [CosmiframeDirectSigner, 'direct'],
+      [CosmiframeAminoSigner, 'amino'],
+      [CosmiframeEitherSigner, 'amino'],
+    ] as const) {
+      const { callParentMethod, parent } = createParent()
+      const signal = new AbortController().signal
+      const signer = new Signer('juno-1', parent, { timeout: 1000 })
+      const signature = {
+        pub_key: { type: 'tendermint/PubKeySecp256k1', value: '' },
+        signature: '',
+      }
+
+      await signer.signArbitrary('juno1', 'data', { signal })
+      await signer.verifyArbitrary('juno1', 'data', signature)
+
+      expect(callParentMethod.mock.calls).toEqual([
+        [
+          {
+            method: 'signArbitrary',
+            params: ['juno1', 'data'],
+            chainId: 'juno-1',
+            signerType,
+          },
+          { timeout: 1000, signal },
+        ],
+        [
+          {
+            method: 'verifyArbitrary',
+            params: ['juno1', 'data', signature],
+            chainId: 'juno-1',
+            signerType,
+          },
+          { timeout: 1000 },
+        ],
+      ])
+    }
+  })
+})
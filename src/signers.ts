@@ -2,6 +2,7 @@ import {
   AminoSignResponse,
   OfflineAminoSigner,
   StdSignDoc,
+  StdSignature,
 } from '@cosmjs/amino'
 import {
   AccountData,
@@ -9,174 +10,310 @@ import {
   OfflineDirectSigner,
 } from '@cosmjs/proto-signing'
 
-import { Origin } from './types'
-import { callParentMethod } from './utils'
+import { CosmiframeCodec } from './codec'
+import { decodeSignRequest, decodeSignResponse } from './decode'
+import { createParentMethodCaller } from './dispatcher'
+import {
+  CosmiframeError,
+  CosmiframeErrorCode,
+  CosmiframeInvalidResponseError,
+  CosmiframeMethodNotFoundError,
+} from './error'
+import { checkSignDocIntegrity } from './integrity'
+import {
+  CallOptions,
+  CalledParentMethodResult,
+  Origin,
+  ParentMethodCaller,
+  SignerOptions,
+  SignerType,
+} from './types'
+
+/**
+ * Returns the caller to route requests through, creating one that sends each
+ * request with its own dispatcher if given allowed parent origins.
+ */
+const getParentMethodCaller = (
+  parent: ParentMethodCaller | Origin[],
+  codec?: CosmiframeCodec
+): ParentMethodCaller =>
+  Array.isArray(parent) ? createParentMethodCaller(parent, codec) : parent
+
+/**
+ * Returns whether or not an error is the parent's response to a signer method
+ * it has no signer for, meaning the signer type is not supported for the
+ * chain. Older parents do not send error codes.
+ */
+const isSignerMethodNotFoundError = (err: unknown) =>
+  err instanceof CosmiframeMethodNotFoundError ||
+  (err instanceof CosmiframeError &&
+    err.code === CosmiframeErrorCode.Unknown &&
+    /^No (amino|direct) signer method/.test(err.message))
+
+/**
+ * Check that the parent signed the requested doc if integrity checks are
+ * enabled, returning the parent's response.
+ */
+const checkSignResponse = async <
+  T extends DirectSignResponse | AminoSignResponse,
+>(
+  integrity: SignerOptions['integrity'],
+  method: 'signDirect' | 'signAmino',
+  signerAddress: string,
+  signDoc: DirectSignResponse['signed'] | StdSignDoc,
+  { result, modifications }: CalledParentMethodResult<T>
+): Promise<T> => {
+  if (!integrity) {
+    return result
+  }
+
+  const requested = decodeSignRequest({
+    method,
+    params: [signerAddress, signDoc],
+    signerType: method === 'signDirect' ? 'direct' : 'amino',
+  })
+  const signed = decodeSignResponse(method, signerAddress, result)
+  if (!requested || !signed) {
+    throw new CosmiframeInvalidResponseError('Invalid signed doc in response.')
+  }
+
+  await checkSignDocIntegrity(integrity, requested, signed, modifications)
+
+  return result
+}
+
+/**
+ * Routes a signer's requests for a chain through the parent, with the call
+ * options and sign doc integrity checks shared by every signer.
+ */
+abstract class CosmiframeSigner {
+  /**
+   * Calls methods on the parent.
+   */
+  #parent: ParentMethodCaller
 
-export class CosmiframeDirectSigner implements OfflineDirectSigner {
   /**
-   * Parent origins we are allowed to communicate with.
+   * Call options used by every request.
    */
-  #allowedOrigins: Origin[]
+  #options: CallOptions
+
+  /**
+   * Whether or not to check the docs signed by the parent, or options for the
+   * check.
+   */
+  #integrity: SignerOptions['integrity']
+
+  /**
+   * The signer type arbitrary data is signed and verified with.
+   */
+  protected abstract readonly arbitrarySignerType: SignerType
 
   constructor(
     public chainId: string,
-    allowedParentOrigins: Origin[]
+    /**
+     * The client to route requests through, or the parent origins we are
+     * allowed to communicate with.
+     */
+    parent: ParentMethodCaller | Origin[],
+    /**
+     * Call options used by every request, such as an abort signal, whether or
+     * not to check the docs signed by the parent, and the codec used when
+     * given parent origins.
+     */
+    { integrity, codec, ...options }: SignerOptions = {}
   ) {
-    this.#allowedOrigins = allowedParentOrigins
+    this.#parent = getParentMethodCaller(parent, codec)
+    this.#options = options
+    this.#integrity = integrity
   }
 
-  async getAccounts(): Promise<readonly AccountData[]> {
-    return (
-      await callParentMethod<readonly AccountData[]>(
-        {
-          method: 'getAccounts',
-          params: [],
-          chainId: this.chainId,
-          signerType: 'direct',
-        },
-        this.#allowedOrigins
+  /**
+   * Call a signer method on the parent for the chain.
+   */
+  protected call<T>(
+    method: string,
+    params: any[],
+    signerType: SignerType,
+    callOptions?: CallOptions
+  ): Promise<CalledParentMethodResult<T>> {
+    return this.#parent.callParentMethod<T>(
+      {
+        method,
+        params,
+        chainId: this.chainId,
+        signerType,
+      },
+      { ...this.#options, ...callOptions }
+    )
+  }
+
+  /**
+   * Ask the parent to sign a doc, checking the doc it signed if enabled.
+   */
+  protected async sign<T extends DirectSignResponse | AminoSignResponse>(
+    method: 'signDirect' | 'signAmino',
+    signerAddress: string,
+    signDoc: DirectSignResponse['signed'] | StdSignDoc,
+    callOptions?: CallOptions
+  ): Promise<T> {
+    return checkSignResponse(
+      this.#integrity,
+      method,
+      signerAddress,
+      signDoc,
+      await this.call<T>(
+        method,
+        [signerAddress, signDoc],
+        method === 'signDirect' ? 'direct' : 'amino',
+        callOptions
       )
-    ).result
+    )
   }
 
-  async signDirect(
+  /**
+   * Sign arbitrary data with ADR-036, such as for login flows. Verify the
+   * signature locally with `verifyArbitrarySignature`.
+   */
+  async signArbitrary(
     signerAddress: string,
-    signDoc: DirectSignResponse['signed']
-  ): Promise<DirectSignResponse> {
+    data: string | Uint8Array,
+    callOptions?: CallOptions
+  ): Promise<StdSignature> {
     return (
-      await callParentMethod<DirectSignResponse>(
-        {
-          method: 'signDirect',
-          params: [signerAddress, signDoc],
-          chainId: this.chainId,
-          signerType: 'direct',
-        },
-        this.#allowedOrigins
+      await this.call<StdSignature>(
+        'signArbitrary',
+        [signerAddress, data],
+        this.arbitrarySignerType,
+        callOptions
       )
     ).result
   }
-}
 
-export class CosmiframeAminoSigner implements OfflineAminoSigner {
   /**
-   * Parent origins we are allowed to communicate with.
+   * Verify an ADR-036 signature of arbitrary data with the parent.
    */
-  #allowedOrigins: Origin[]
-
-  constructor(
-    public chainId: string,
-    allowedParentOrigins: Origin[]
-  ) {
-    this.#allowedOrigins = allowedParentOrigins
+  async verifyArbitrary(
+    signerAddress: string,
+    data: string | Uint8Array,
+    signature: StdSignature,
+    callOptions?: CallOptions
+  ): Promise<boolean> {
+    return (
+      await this.call<boolean>(
+        'verifyArbitrary',
+        [signerAddress, data, signature],
+        this.arbitrarySignerType,
+        callOptions
+      )
+    ).result
   }
+}
+
+export class CosmiframeDirectSigner
+  extends CosmiframeSigner
+  implements OfflineDirectSigner
+{
+  protected readonly arbitrarySignerType = 'direct'
 
-  async getAccounts(): Promise<readonly AccountData[]> {
+  async getAccounts(
+    callOptions?: CallOptions
+  ): Promise<readonly AccountData[]> {
     return (
-      await callParentMethod<readonly AccountData[]>(
-        {
-          method: 'getAccounts',
-          params: [],
-          chainId: this.chainId,
-          signerType: 'amino',
-        },
-        this.#allowedOrigins
+      await this.call<readonly AccountData[]>(
+        'getAccounts',
+        [],
+        'direct',
+        callOptions
       )
     ).result
   }
 
-  async signAmino(
+  signDirect(
     signerAddress: string,
-    signDoc: StdSignDoc
-  ): Promise<AminoSignResponse> {
+    signDoc: DirectSignResponse['signed'],
+    callOptions?: CallOptions
+  ): Promise<DirectSignResponse> {
+    return this.sign('signDirect', signerAddress, signDoc, callOptions)
+  }
+}
+
+export class CosmiframeAminoSigner
+  extends CosmiframeSigner
+  implements OfflineAminoSigner
+{
+  protected readonly arbitrarySignerType = 'amino'
+
+  async getAccounts(
+    callOptions?: CallOptions
+  ): Promise<readonly AccountData[]> {
     return (
-      await callParentMethod<AminoSignResponse>(
-        {
-          method: 'signAmino',
-          params: [signerAddress, signDoc],
-          chainId: this.chainId,
-          signerType: 'amino',
-        },
-        this.#allowedOrigins
+      await this.call<readonly AccountData[]>(
+        'getAccounts',
+        [],
+        'amino',
+        callOptions
       )
     ).result
   }
+
+  signAmino(
+    signerAddress: string,
+    signDoc: StdSignDoc,
+    callOptions?: CallOptions
+  ): Promise<AminoSignResponse> {
+    return this.sign('signAmino', signerAddress, signDoc, callOptions)
+  }
 }
 
 export class CosmiframeEitherSigner
+  extends CosmiframeSigner
   implements OfflineDirectSigner, OfflineAminoSigner
 {
-  /**
-   * Parent origins we are allowed to communicate with.
-   */
-  #allowedOrigins: Origin[]
+  protected readonly arbitrarySignerType = 'amino'
 
-  constructor(
-    public chainId: string,
-    allowedParentOrigins: Origin[]
-  ) {
-    this.#allowedOrigins = allowedParentOrigins
-  }
-
-  async getAccounts(): Promise<readonly AccountData[]> {
-    // Try amino first, falling back to direct.
+  async getAccounts(
+    callOptions?: CallOptions
+  ): Promise<readonly AccountData[]> {
+    // Try amino first, falling back to direct only if the parent has no amino
+    // signer for the chain.
     try {
       return (
-        await callParentMethod<readonly AccountData[]>(
-          {
-            method: 'getAccounts',
-            params: [],
-            chainId: this.chainId,
-            signerType: 'amino',
-          },
-          this.#allowedOrigins
+        await this.call<readonly AccountData[]>(
+          'getAccounts',
+          [],
+          'amino',
+          callOptions
         )
       ).result
-    } catch {
+    } catch (err) {
+      if (!isSignerMethodNotFoundError(err)) {
+        throw err
+      }
+
       return (
-        await callParentMethod<readonly AccountData[]>(
-          {
-            method: 'getAccounts',
-            params: [],
-            chainId: this.chainId,
-            signerType: 'direct',
-          },
-          this.#allowedOrigins
+        await this.call<readonly AccountData[]>(
+          'getAccounts',
+          [],
+          'direct',
+          callOptions
         )
       ).result
     }
   }
 
-  async signDirect(
+  signDirect(
     signerAddress: string,
-    signDoc: DirectSignResponse['signed']
+    signDoc: DirectSignResponse['signed'],
+    callOptions?: CallOptions
   ): Promise<DirectSignResponse> {
-    return (
-      await callParentMethod<DirectSignResponse>(
-        {
-          method: 'signDirect',
-          params: [signerAddress, signDoc],
-          chainId: this.chainId,
-          signerType: 'direct',
-        },
-        this.#allowedOrigins
-      )
-    ).result
+    return this.sign('signDirect', signerAddress, signDoc, callOptions)
   }
 
-  async signAmino(
+  signAmino(
     signerAddress: string,
-    signDoc: StdSignDoc
+    signDoc: StdSignDoc,
+    callOptions?: CallOptions
   ): Promise<AminoSignResponse> {
-    return (
-      await callParentMethod<AminoSignResponse>(
-        {
-          method: 'signAmino',
-          params: [signerAddress, signDoc],
-          chainId: this.chainId,
-          signerType: 'amino',
-        },
-        this.#allowedOrigins
-      )
-    ).result
+    return this.sign('signAmino', signerAddress, signDoc, callOptions)
   }
 }
@@ -0,0 +1,29 @@
+import { afterEach } from 'vitest'
+
+import { CosmiframeTestHarness, CosmiframeTestHarnessOptions } from './testing'
+
+/**
+ * Returns a function that installs a test harness, with options applied on top
+ * of the defaults, and creates a client for it. The harness is uninstalled
+ * after each test.
+ */
+export const useTestHarness = (defaults?: CosmiframeTestHarnessOptions) => {
+  let harness: CosmiframeTestHarness | undefined
+
+  afterEach(() => {
+    harness?.uninstall()
+    harness = undefined
+  })
+
+  return (options?: CosmiframeTestHarnessOptions) => {
+    harness = new CosmiframeTestHarness({
+      ...defaults,
+      ...options,
+    }).install()
+
+    return {
+      harness,
+      cosmiframe: harness.createClient(),
+    }
+  }
+}
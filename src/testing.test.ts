@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+
+import { StdSignDoc } from '@cosmjs/amino'
+import { describe, expect, it, vi } from 'vitest'
+
+import { CosmiframeUserRejectedError, KEPLR_KEYSTORE_CHANGE_EVENT } from '.'
+import { useTestHarness } from './test-utils'
+
+const signDoc: StdSignDoc = {
+  chain_id: 'juno-1',
+  account_number: '1',
+  sequence: '0',
+  fee: {
+    amount: [],
+    gas: '200000',
+  },
+  msgs: [
+    {
+      type: 'cosmos-sdk/MsgSend',
+      value: {
+        amount: [],
+      },
+    },
+  ],
+  memo: '',
+}
+
+describe('CosmiframeTestHarness', () => {
+  const setUp = useTestHarness({ prefix: 'juno' })
+
+  it('signs with the simulated wallet', async () => {
+    const { harness, cosmiframe } = setUp()
+    const signer = cosmiframe.getOfflineSignerAmino('juno-1')
+
+    const [{ address }] = await signer.getAccounts()
+    expect(address).toMatch(/^juno1/)
+
+    const { signed, signature } = await signer.signAmino(address, signDoc)
+    expect(signed).toEqual(signDoc)
+    expect(signature.signature).toBeTruthy()
+    expect(harness.requests.map(({ method }) => method)).toContain('signAmino')
+
+    cosmiframe.destroy()
+  })
+
+  it('rejects sign requests the user rejects', async () => {
+    const { harness, cosmiframe } = setUp()
+    const signer = cosmiframe.getOfflineSignerAmino('juno-1')
+    const [{ address }] = await signer.getAccounts()
+
+    harness.approve = () => false
+    await expect(signer.signAmino(address, signDoc)).rejects.toThrow(
+      CosmiframeUserRejectedError
+    )
+
+    cosmiframe.destroy()
+  })
+
+  it('ignores events from other origins', async () => {
+    const { harness, cosmiframe } = setUp()
+    const handler = vi.fn()
+    cosmiframe.on(KEPLR_KEYSTORE_CHANGE_EVENT, handler)
+
+    harness.sendToIframe(
+      { type: 'event', event: KEPLR_KEYSTORE_CHANGE_EVENT },
+      { origin: 'https://evil.com' }
+    )
+    harness.emit(KEPLR_KEYSTORE_CHANGE_EVENT)
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1))
+    expect(handler).toHaveBeenCalledWith(undefined, harness.parentOrigin)
+
+    cosmiframe.destroy()
+  })
+})
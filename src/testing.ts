@@ -0,0 +1,409 @@
+import {
+  OfflineAminoSigner,
+  Secp256k1HdWallet,
+  StdSignature,
+  rawSecp256k1PubkeyToRawAddress,
+} from '@cosmjs/amino'
+import {
+  DirectSecp256k1HdWallet,
+  OfflineDirectSigner,
+} from '@cosmjs/proto-signing'
+
+import { makeArbitrarySignDoc, verifyArbitrarySignature } from './arbitrary'
+import { Cosmiframe } from './client'
+import { CosmiframeUserRejectedError } from './error'
+import { CosmiframeHost } from './host'
+import {
+  CallParentMethodOptions,
+  CosmiframeOptions,
+  HostOptions,
+  RequestMethodCallMessage,
+} from './types'
+
+/**
+ * A well-known mnemonic used by default. Never use it to hold real funds.
+ */
+export const TEST_MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+
+/**
+ * Decides whether the simulated user approves a sign request.
+ */
+export type ApprovalHandler = (
+  request: CallParentMethodOptions
+) => boolean | Promise<boolean>
+
+export type CosmiframeTestHarnessOptions = Partial<
+  Omit<HostOptions, 'getOfflineSignerDirect' | 'getOfflineSignerAmino'>
+> & {
+  /**
+   * The mnemonic of the simulated wallet. Defaults to `TEST_MNEMONIC`.
+   */
+  mnemonic?: string
+  /**
+   * The bech32 prefix of addresses, or a function that returns it for a chain
+   * ID. Defaults to `cosmos`.
+   */
+  prefix?: string | ((chainId: string) => string)
+  /**
+   * The origin the parent appears to have. Defaults to `https://parent.test`.
+   */
+  parentOrigin?: string
+  /**
+   * The origin the iframe appears to have. Defaults to `https://iframe.test`.
+   */
+  iframeOrigin?: string
+  /**
+   * Decides whether sign requests are approved. Defaults to approving all.
+   */
+  approve?: ApprovalHandler
+  /**
+   * The delay in milliseconds before the parent receives each request.
+   * Defaults to 0.
+   */
+  latency?: number
+}
+
+/**
+ * Simulates a parent window and iframe pair in a single JS realm, so apps
+ * using `Cosmiframe` can be tested without a browser or a real wallet. The
+ * current window acts as the iframe, and a fake `window.parent` runs the real
+ * host logic against an in-memory mnemonic-backed wallet. This requires a DOM
+ * environment, such as jsdom.
+ *
+ * For example:
+ *
+ * const harness = new CosmiframeTestHarness().install()
+ * const cosmiframe = harness.createClient()
+ * const accounts = await cosmiframe
+ *   .getOfflineSignerDirect('cosmoshub-4')
+ *   .getAccounts()
+ * harness.uninstall()
+ */
+export class CosmiframeTestHarness {
+  /**
+   * The origin the parent appears to have.
+   */
+  readonly parentOrigin: string
+
+  /**
+   * The origin the iframe appears to have.
+   */
+  readonly iframeOrigin: string
+
+  /**
+   * Decides whether sign requests are approved. Can be changed at any time.
+   */
+  approve: ApprovalHandler
+
+  /**
+   * The delay in milliseconds before the parent receives each request. Can be
+   * changed at any time.
+   */
+  latency: number
+
+  /**
+   * Requests received by the parent, in order.
+   */
+  readonly requests: RequestMethodCallMessage[] = []
+
+  /**
+   * The fake parent window, installed as `window.parent`.
+   */
+  readonly parent: Window
+
+  /**
+   * The fake iframe registered with the host, whose window is the current
+   * window.
+   */
+  readonly iframe: HTMLIFrameElement
+
+  #host: CosmiframeHost
+  #mnemonic: string
+  #prefix: string | ((chainId: string) => string)
+
+  /**
+   * Wallets by prefix.
+   */
+  #wallets = new Map<
+    string,
+    Promise<{
+      direct: DirectSecp256k1HdWallet
+      amino: Secp256k1HdWallet
+    }>
+  >()
+
+  /**
+   * The original `window.parent` property, restored when uninstalled.
+   */
+  #originalParent?: PropertyDescriptor
+  #installed = false
+
+  constructor({
+    mnemonic = TEST_MNEMONIC,
+    prefix = 'cosmos',
+    parentOrigin = 'https://parent.test',
+    iframeOrigin = 'https://iframe.test',
+    approve = () => true,
+    latency = 0,
+    target = {},
+    origins = [iframeOrigin],
+    ...options
+  }: CosmiframeTestHarnessOptions = {}) {
+    this.parentOrigin = parentOrigin
+    this.iframeOrigin = iframeOrigin
+    this.approve = approve
+    this.latency = latency
+    this.#mnemonic = mnemonic
+    this.#prefix = prefix
+
+    this.parent = {
+      postMessage: (
+        data: unknown,
+        targetOrigin: string,
+        transfer?: Transferable[]
+      ) => {
+        if (targetOrigin !== '*' && targetOrigin !== this.parentOrigin) {
+          return
+        }
+
+        if (data && typeof data === 'object' && 'method' in data) {
+          this.requests.push(data as RequestMethodCallMessage)
+        }
+
+        this.#dispatch(
+          data,
+          this.iframeOrigin,
+          iframeWindow,
+          this.latency,
+          transfer
+        )
+      },
+    } as Window
+
+    const iframeWindow = {
+      postMessage: (data: unknown, targetOrigin: string) => {
+        if (targetOrigin !== '*' && targetOrigin !== this.iframeOrigin) {
+          return
+        }
+
+        this.sendToIframe(data)
+      },
+    } as Window
+
+    this.iframe = {
+      contentWindow: iframeWindow,
+      isConnected: true,
+    } as HTMLIFrameElement
+
+    this.#host = new CosmiframeHost({
+      target: {
+        enable: async () => {},
+        getKey: async (chainId: string) => {
+          const [{ address, algo, pubkey }] = await (
+            await this.getOfflineSignerDirect(chainId)
+          ).getAccounts()
+
+          return {
+            name: 'Test',
+            algo,
+            pubKey: pubkey,
+            address: rawSecp256k1PubkeyToRawAddress(pubkey),
+            bech32Address: address,
+            isNanoLedger: false,
+            isKeystone: false,
+          }
+        },
+        signArbitrary: async (
+          chainId: string,
+          signer: string,
+          data: string | Uint8Array
+        ) => {
+          await this.#requestApproval({
+            method: 'signArbitrary',
+            params: [signer, data],
+            chainId,
+            signerType: 'amino',
+          })
+
+          const { amino } = await this.#getWallets(chainId)
+          return (
+            await amino.signAmino(signer, makeArbitrarySignDoc(signer, data))
+          ).signature
+        },
+        verifyArbitrary: (
+          _chainId: string,
+          signer: string,
+          data: string | Uint8Array,
+          signature: StdSignature
+        ) => verifyArbitrarySignature(signer, data, signature),
+        ...target,
+      },
+      getOfflineSignerDirect: (chainId) => this.getOfflineSignerDirect(chainId),
+      getOfflineSignerAmino: (chainId) => this.getOfflineSignerAmino(chainId),
+      origins,
+      ...options,
+    })
+  }
+
+  /**
+   * Install the fake parent as `window.parent` and start listening for
+   * requests from the iframe.
+   */
+  install(): this {
+    if (!this.#installed) {
+      this.#originalParent = Object.getOwnPropertyDescriptor(window, 'parent')
+      Object.defineProperty(window, 'parent', {
+        value: this.parent,
+        configurable: true,
+      })
+
+      this.#host.register(this.iframe)
+      this.#installed = true
+    }
+
+    return this
+  }
+
+  /**
+   * Stop listening and restore the original `window.parent`.
+   */
+  uninstall() {
+    if (!this.#installed) {
+      return
+    }
+
+    this.#host.destroy()
+
+    if (this.#originalParent) {
+      Object.defineProperty(window, 'parent', this.#originalParent)
+    } else {
+      delete (window as { parent?: Window }).parent
+    }
+
+    this.#installed = false
+  }
+
+  /**
+   * Create a client in the iframe that allows the parent's origin by default.
+   */
+  createClient<TTarget extends object = any>(
+    allowedParentOrigins = [this.parentOrigin],
+    options?: CosmiframeOptions
+  ): Cosmiframe<TTarget> {
+    return new Cosmiframe<TTarget>(allowedParentOrigins, options)
+  }
+
+  /**
+   * Get the simulated wallet's direct signer, which asks for approval before
+   * signing.
+   */
+  async getOfflineSignerDirect(chainId: string): Promise<OfflineDirectSigner> {
+    const { direct } = await this.#getWallets(chainId)
+
+    return {
+      getAccounts: () => direct.getAccounts(),
+      signDirect: async (...params) => {
+        await this.#requestApproval({
+          method: 'signDirect',
+          params,
+          chainId,
+          signerType: 'direct',
+        })
+        return direct.signDirect(...params)
+      },
+    }
+  }
+
+  /**
+   * Get the simulated wallet's amino signer, which asks for approval before
+   * signing.
+   */
+  async getOfflineSignerAmino(chainId: string): Promise<OfflineAminoSigner> {
+    const { amino } = await this.#getWallets(chainId)
+
+    return {
+      getAccounts: () => amino.getAccounts(),
+      signAmino: async (...params) => {
+        await this.#requestApproval({
+          method: 'signAmino',
+          params,
+          chainId,
+          signerType: 'amino',
+        })
+        return amino.signAmino(...params)
+      },
+    }
+  }
+
+  /**
+   * Emit an event from the parent to the iframe.
+   */
+  emit<T = any>(event: string, payload?: T) {
+    this.#host.emit(event, payload, this.iframe)
+  }
+
+  /**
+   * Deliver a message to the iframe, which appears to come from the parent by
+   * default. Provide a different origin or source to simulate spoofed
+   * messages.
+   */
+  sendToIframe(
+    data: unknown,
+    {
+      origin = this.parentOrigin,
+      source = this.parent,
+    }: {
+      origin?: string
+      source?: MessageEventSource | null
+    } = {}
+  ) {
+    this.#dispatch(data, origin, source, 0)
+  }
+
+  #getWallets(chainId: string) {
+    const prefix =
+      typeof this.#prefix === 'function' ? this.#prefix(chainId) : this.#prefix
+
+    if (!this.#wallets.has(prefix)) {
+      this.#wallets.set(
+        prefix,
+        Promise.all([
+          DirectSecp256k1HdWallet.fromMnemonic(this.#mnemonic, { prefix }),
+          Secp256k1HdWallet.fromMnemonic(this.#mnemonic, { prefix }),
+        ]).then(([direct, amino]) => ({ direct, amino }))
+      )
+    }
+
+    return this.#wallets.get(prefix)!
+  }
+
+  async #requestApproval(request: CallParentMethodOptions) {
+    if (!(await this.approve(request))) {
+      throw new CosmiframeUserRejectedError()
+    }
+  }
+
+  /**
+   * Dispatch a message event on the current window, cloning the data and
+   * transferring objects like `postMessage` does.
+   */
+  #dispatch(
+    data: unknown,
+    origin: string,
+    source: MessageEventSource | null,
+    delay: number,
+    transfer?: Transferable[]
+  ) {
+    const event = new MessageEvent('message', {
+      data: structuredClone(data, { transfer }),
+      origin,
+    })
+    // jsdom only accepts real windows as the source, so set it directly.
+    Object.defineProperty(event, 'source', {
+      value: source,
+    })
+
+    setTimeout(() => window.dispatchEvent(event), delay)
+  }
+}
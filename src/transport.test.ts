@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  createBroadcastChannelTransport,
+  createMemoryTransports,
+  createMessagePortTransport,
+  createWindowTransport,
+  isTransport,
+} from './transport'
+
+const iframeOrigin = 'https://app.example'
+const parentOrigin = 'https://parent.example'
+
+describe('createWindowTransport', () => {
+  it('only accepts messages sent by the target window', () => {
+    const target = { postMessage: vi.fn() } as unknown as Window
+    const transport = createWindowTransport(() => target)
+
+    const handler = vi.fn()
+    const unlisten = transport.listen(handler)
+    window.dispatchEvent(
+      new MessageEvent('message', { data: 1, origin: parentOrigin })
+    )
+    window.dispatchEvent(
+      new MessageEvent('message', {
+        data: 2,
+        origin: parentOrigin,
+        source: target as MessageEventSource,
+      })
+    )
+    expect(handler.mock.calls).toEqual([[{ data: 2, origin: parentOrigin }]])
+
+    unlisten()
+    window.dispatchEvent(
+      new MessageEvent('message', {
+        data: 3,
+        origin: parentOrigin,
+        source: target as MessageEventSource,
+      })
+    )
+    expect(handler).toHaveBeenCalledOnce()
+
+    transport.postMessage('message', parentOrigin)
+    expect(target.postMessage).toHaveBeenCalledWith(
+      'message',
+      parentOrigin,
+      undefined
+    )
+  })
+})
+
+describe('createMessagePortTransport', () => {
+  it('reports messages as coming from the origin the port was received from', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const iframe = createMessagePortTransport(port1, parentOrigin)
+    const parent = createMessagePortTransport(port2, iframeOrigin)
+
+    const handler = vi.fn()
+    parent.listen(handler)
+    iframe.postMessage('other', 'https://other.example')
+    iframe.postMessage('message', parentOrigin)
+
+    await vi.waitFor(() =>
+      expect(handler).toHaveBeenCalledWith({
+        data: 'message',
+        origin: iframeOrigin,
+      })
+    )
+    expect(handler).toHaveBeenCalledOnce()
+
+    iframe.close?.()
+    parent.close?.()
+  })
+})
+
+describe('createBroadcastChannelTransport', () => {
+  it('delivers messages to other windows on the channel', async () => {
+    const opener = createBroadcastChannelTransport('cosmiframe', iframeOrigin)
+    const tab = createBroadcastChannelTransport('cosmiframe', iframeOrigin)
+
+    const handler = vi.fn()
+    tab.listen(handler)
+    opener.postMessage('other', parentOrigin)
+    opener.postMessage('message', '*')
+
+    await vi.waitFor(() =>
+      expect(handler).toHaveBeenCalledWith({
+        data: 'message',
+        origin: iframeOrigin,
+      })
+    )
+    expect(handler).toHaveBeenCalledOnce()
+
+    opener.close?.()
+    tab.close?.()
+  })
+})
+
+describe('createMemoryTransports', () => {
+  it('delivers cloned messages to the other side', async () => {
+    const { iframe, parent } = createMemoryTransports({
+      iframeOrigin,
+      parentOrigin,
+    })
+    expect(isTransport(iframe)).toBe(true)
+    expect(isTransport(document.createElement('iframe'))).toBe(false)
+
+    const iframeHandler = vi.fn()
+    const parentHandler = vi.fn()
+    iframe.listen(iframeHandler)
+    const unlisten = parent.listen(parentHandler)
+
+    const message = { params: ['juno-1', { amount: '1' }] }
+    iframe.postMessage(message, 'https://other.example')
+    iframe.postMessage(message, parentOrigin)
+    await vi.waitFor(() => expect(parentHandler).toHaveBeenCalledOnce())
+
+    const [[{ data, origin }]] = parentHandler.mock.calls
+    expect(origin).toBe(iframeOrigin)
+    expect(data).toEqual(message)
+    expect(data).not.toBe(message)
+    expect(iframeHandler).not.toHaveBeenCalled()
+
+    unlisten()
+    iframe.postMessage(message, '*')
+    parent.postMessage(message, '*')
+    await vi.waitFor(() => expect(iframeHandler).toHaveBeenCalledOnce())
+    expect(parentHandler).toHaveBeenCalledOnce()
+  })
+})
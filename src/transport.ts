@@ -0,0 +1,166 @@
+import { CosmiframeTransport, TransportMessage } from './types'
+
+/**
+ * Returns whether or not a message sent to a target origin may be delivered to
+ * a side at the origin.
+ */
+const canDeliver = (targetOrigin: string, origin: string) =>
+  targetOrigin === '*' || targetOrigin === origin
+
+/**
+ * Returns whether or not a value is a transport rather than an iframe.
+ */
+export const isTransport = (value: unknown): value is CosmiframeTransport =>
+  !!value &&
+  typeof value === 'object' &&
+  'listen' in value &&
+  typeof value.listen === 'function' &&
+  'postMessage' in value &&
+  typeof value.postMessage === 'function'
+
+/**
+ * Create a transport that sends messages to a window with `postMessage` and
+ * only accepts messages sent by it, such as `window.parent` from an iframe or
+ * the window of a popup. The browser reports the origin of each message. Pass
+ * a function to resolve the window each time it is used.
+ */
+export const createWindowTransport = (
+  target: Window | (() => Window | null | undefined)
+): CosmiframeTransport => {
+  const getTarget = typeof target === 'function' ? target : () => target
+
+  return {
+    postMessage: (message, targetOrigin, transfer) =>
+      getTarget()?.postMessage(message, targetOrigin, transfer),
+    listen: (handler) => {
+      const listener = ({ source, origin, data }: MessageEvent) => {
+        if (source && source === getTarget()) {
+          handler({ data, origin })
+        }
+      }
+
+      window.addEventListener('message', listener)
+      return () => window.removeEventListener('message', listener)
+    },
+  }
+}
+
+/**
+ * Create a transport over a `MessagePort`, such as one handed off by the other
+ * side after the handshake. Ports do not report origins, so messages are
+ * reported as coming from the origin the port was received from, and messages
+ * targeting any other origin are not sent.
+ */
+export const createMessagePortTransport = (
+  port: MessagePort,
+  origin: string
+): CosmiframeTransport => ({
+  postMessage: (message, targetOrigin, transfer = []) => {
+    if (canDeliver(targetOrigin, origin)) {
+      port.postMessage(message, transfer)
+    }
+  },
+  listen: (handler) => {
+    const listener = ({ data }: MessageEvent) => handler({ data, origin })
+
+    port.addEventListener('message', listener)
+    port.start()
+    return () => port.removeEventListener('message', listener)
+  },
+  close: () => port.close(),
+})
+
+/**
+ * Create a transport over a `BroadcastChannel`, so an app opened in a new tab
+ * of the same origin can talk to the tab that opened it. Broadcast channels
+ * only connect windows of the same origin, so messages are reported as coming
+ * from this origin. Every window listening on the channel receives every
+ * message.
+ */
+export const createBroadcastChannelTransport = (
+  name: string,
+  /**
+   * The origin of this window. Defaults to `location.origin`.
+   */
+  origin = location.origin
+): CosmiframeTransport => {
+  const channel = new BroadcastChannel(name)
+
+  return {
+    postMessage: (message, targetOrigin) => {
+      if (canDeliver(targetOrigin, origin)) {
+        channel.postMessage(message)
+      }
+    },
+    listen: (handler) => {
+      const listener = ({ data }: MessageEvent) => handler({ data, origin })
+
+      channel.addEventListener('message', listener)
+      return () => channel.removeEventListener('message', listener)
+    },
+    close: () => channel.close(),
+  }
+}
+
+/**
+ * Create a connected pair of transports that pass messages in memory, cloning
+ * them like `postMessage` does. This lets the client and a host talk to each
+ * other without windows, such as in Node.
+ */
+export const createMemoryTransports = ({
+  iframeOrigin,
+  parentOrigin,
+}: {
+  /**
+   * The origin messages from the iframe side are reported as coming from.
+   */
+  iframeOrigin: string
+  /**
+   * The origin messages from the parent side are reported as coming from.
+   */
+  parentOrigin: string
+}): {
+  iframe: CosmiframeTransport
+  parent: CosmiframeTransport
+} => {
+  const iframeHandlers = new Set<(message: TransportMessage) => void>()
+  const parentHandlers = new Set<(message: TransportMessage) => void>()
+
+  const createSide = (
+    origin: string,
+    peerOrigin: string,
+    handlers: Set<(message: TransportMessage) => void>,
+    peerHandlers: Set<(message: TransportMessage) => void>
+  ): CosmiframeTransport => ({
+    postMessage: (message, targetOrigin, transfer) => {
+      if (!canDeliver(targetOrigin, peerOrigin)) {
+        return
+      }
+
+      const data = structuredClone(message, { transfer })
+      // Deliver asynchronously, like `postMessage`.
+      setTimeout(() =>
+        [...peerHandlers].forEach((handler) => handler({ data, origin }))
+      )
+    },
+    listen: (handler) => {
+      handlers.add(handler)
+      return () => handlers.delete(handler)
+    },
+  })
+
+  return {
+    iframe: createSide(
+      iframeOrigin,
+      parentOrigin,
+      iframeHandlers,
+      parentHandlers
+    ),
+    parent: createSide(
+      parentOrigin,
+      iframeOrigin,
+      parentHandlers,
+      iframeHandlers
+    ),
+  }
+}
@@ -1,5 +1,17 @@
-import { OfflineAminoSigner } from '@cosmjs/amino'
-import { OfflineDirectSigner } from '@cosmjs/proto-signing'
+import { AminoMsg, Coin, OfflineAminoSigner } from '@cosmjs/amino'
+import {
+  EncodeObject,
+  OfflineDirectSigner,
+  Registry,
+} from '@cosmjs/proto-signing'
+import { Keplr, SecretUtils } from '@keplr-wallet/types'
+
+import { CosmiframeAuditLog } from './audit'
+import { CosmiframeCodec } from './codec'
+import { CosmiframeErrorCode } from './error'
+import { CosmiframeRateLimiter } from './limiter'
+import { CosmiframeOriginManifest } from './manifest'
+import { CosmiframeSessions } from './session'
 
 /**
  * The two signer types.
@@ -30,33 +42,235 @@ export type RequestMethodCallMessage = {
 
   // For internal messages.
   internal?: boolean
+
+  // For relayed messages, the origins of the frames the request was relayed
+  // from, starting with the one that made it.
+  relayedFrom?: string[]
+
+  // For encoded messages. Parents that do not support the codec version use
+  // the raw params instead, which are left empty once the parent has responded
+  // with the codec.
+  codec?: string
+  encodedParams?: unknown[]
 }
 
 export type RequestMethodCallMessageNoId = Omit<RequestMethodCallMessage, 'id'>
 
+/**
+ * The fields of a request set by the caller.
+ */
+export type CallParentMethodOptions = Pick<
+  RequestMethodCallMessage,
+  'method' | 'params' | 'chainId' | 'signerType' | 'internal' | 'relayedFrom'
+>
+
+/**
+ * Something that can call methods on the parent, such as the `Cosmiframe`
+ * client.
+ */
+export type ParentMethodCaller = {
+  callParentMethod: <T = any>(
+    options: CallParentMethodOptions,
+    callOptions?: number | CallOptions
+  ) => Promise<CalledParentMethodResult<T>>
+}
+
+/**
+ * Something requests can be relayed to, such as the `Cosmiframe` client of an
+ * app that is itself embedded in a parent.
+ */
+export type RelayTarget = ParentMethodCaller & {
+  getCapabilities: () => Promise<Capabilities>
+}
+
+/**
+ * Options that control how long the iframe waits for the parent to respond.
+ */
+export type CallOptions = {
+  /**
+   * The timeout in milliseconds after which to reject the promise and stop
+   * waiting if the parent has not responded. If undefined, no timeout.
+   */
+  timeout?: number
+  /**
+   * A signal that cancels the request when aborted, rejecting the promise
+   * with a `CosmiframeCancelledError` and notifying the parent.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * A request sent to the parent that has not yet been responded to.
+ */
+export type PendingRequest = Pick<
+  RequestMethodCallMessage,
+  'id' | 'method' | 'chainId' | 'signerType' | 'internal'
+> & {
+  /**
+   * When the request was sent, in milliseconds since the epoch.
+   */
+  sentAt: number
+}
+
+/**
+ * How the calls in a batch are executed by the parent.
+ */
+export type BatchMode = 'parallel' | 'sequence'
+
+/**
+ * The params of a batch request, which executes many calls using a single
+ * message and returns a result message for each.
+ */
+export type BatchRequest = {
+  calls: CallParentMethodOptions[]
+  mode: BatchMode
+}
+
 /**
  * A message sent from the parent to the iframe with the result of a method
  * call.
  */
 export type MethodCallResultMessage<T = any> = {
   id: string
+  /**
+   * The version of the codec used to encode the response, if encoded. Parents
+   * only encode responses to requests that were encoded with the same codec.
+   */
+  codec?: string
 } & (
   | {
       type: 'success'
       response: T
+      /**
+       * Changes the parent declared it made to the sign doc before signing
+       * it, sent with responses to sign requests.
+       */
+      modifications?: SignDocModification[]
       error?: never
     }
-  | {
-      type: 'error'
-      error: string
-      response?: never
-    }
+  | MethodCallErrorResult
 )
 
-export type MethodCallResultMessageNoId<T = any> = Omit<
+/**
+ * The error fields of a method call result message.
+ */
+export type MethodCallErrorResult = {
+  type: 'error'
+  /**
+   * The error message.
+   */
+  error: string
+  /**
+   * The error code, used by the iframe to rehydrate the correct error class.
+   * Older parents do not send this.
+   */
+  code?: CosmiframeErrorCode | string
+  /**
+   * The name of the error thrown by the parent.
+   */
+  name?: string
+  /**
+   * Optional data attached to the error.
+   */
+  data?: unknown
+  response?: never
+}
+
+// Omit does not distribute over the union, so build this from its parts.
+export type MethodCallResultMessageNoId<T = any> = Pick<
   MethodCallResultMessage<T>,
-  'id'
->
+  'codec'
+> &
+  (
+    | {
+        type: 'success'
+        response: T
+        modifications?: SignDocModification[]
+        error?: never
+      }
+    | MethodCallErrorResult
+  )
+
+/**
+ * A message sent from the parent to the iframe to notify it of an event, such
+ * as the user switching accounts in the parent's wallet.
+ */
+export type EventMessage<T = any> = {
+  type: 'event'
+  event: string
+  payload: T
+  /**
+   * The version of the codec used to encode the payload, if encoded. Parents
+   * only encode payloads for iframes that reported the same codec in the
+   * handshake.
+   */
+  codec?: string
+}
+
+/**
+ * A message sent from the iframe to the parent when it stops waiting for a
+ * request, such as when the request is aborted or times out, so the parent can
+ * dismiss any pending approval UI.
+ */
+export type CancelRequestMessage = {
+  type: 'cancel'
+  id: string
+}
+
+/**
+ * A request, response, cancellation or event encrypted with a secure channel
+ * established between the iframe and parent.
+ */
+export type SecureMessage = {
+  type: 'secure'
+  /**
+   * The ID of the channel the message was encrypted with.
+   */
+  channel: string
+  /**
+   * Increases with each message sent over the channel, so replayed messages
+   * can be rejected.
+   */
+  sequence: number
+  /**
+   * The random nonce the message was encrypted with.
+   */
+  iv: Uint8Array
+  /**
+   * The encrypted message.
+   */
+  data: Uint8Array
+}
+
+/**
+ * Sent by the iframe to establish a secure channel with the parent.
+ */
+export type KeyExchangeRequest = {
+  /**
+   * The iframe's raw ECDH P-256 public key.
+   */
+  publicKey: Uint8Array
+}
+
+/**
+ * Returned by the parent once it has established a secure channel.
+ */
+export type KeyExchangeResponse = {
+  /**
+   * The ID of the channel, sent with each message encrypted with it.
+   */
+  channel: string
+  /**
+   * The parent's raw ECDH P-256 public key.
+   */
+  publicKey: Uint8Array
+}
+
+/**
+ * A function called by the iframe when the parent emits an event. The origin
+ * is that of the parent that emitted the event.
+ */
+export type EventHandler<T = any> = (payload: T, origin: string) => void
 
 /**
  * The result with metadata from calling a parent method.
@@ -71,15 +285,21 @@ export type CalledParentMethodResult<T> = {
    * origin. This is pulled directly from the `MessageEvent`.
    */
   origin: string
+  /**
+   * Changes the parent declared it made to the sign doc before signing it.
+   */
+  modifications?: SignDocModification[]
 }
 
 /**
  * The override handler that throws an error, defaulting to "Handled by outer
- * wallet."
+ * wallet." If a string is provided, a `CosmiframeHandledByParentError` with
+ * that message is sent to the iframe. If an error is provided, such as a
+ * `CosmiframeUserRejectedError`, it is sent to the iframe.
  */
 export type OverrideHandlerError = {
   type: 'error'
-  error?: string
+  error?: string | Error
 }
 
 /**
@@ -111,7 +331,9 @@ export type OverrideHandler =
   | void
 
 /**
- * Object containing override handlers for methods.
+ * Object containing override handlers for methods. To read the request
+ * context, such as the decoded sign doc, set the overrides to a function that
+ * receives the context and returns them.
  */
 export type Overrides = Record<
   string,
@@ -119,46 +341,26 @@ export type Overrides = Record<
 >
 
 /**
- * Options passed when setting up listening by the parent.
+ * Options that apply to a single iframe, set when registering it with a host.
  */
-export type ListenOptions = {
-  /**
-   * The iframe HTML element to listen to.
-   */
-  iframe: HTMLIFrameElement
-  /**
-   * The client or object whose methods to call.
-   */
-  target: Record<string, any>
-  /**
-   * A function to retrieve the offline direct signer.
-   */
-  getOfflineSignerDirect: (
-    chainId: string
-  ) => OfflineDirectSigner | Promise<OfflineDirectSigner>
-  /**
-   * A function to retrieve the offline amino signer.
-   */
-  getOfflineSignerAmino: (
-    chainId: string
-  ) => OfflineAminoSigner | Promise<OfflineAminoSigner>
+export type HostIframeOptions = {
   /**
    * Overrides applied to non-signer message requests.
    */
   nonSignerOverrides?:
     | Overrides
-    | (() => Overrides)
-    | (() => Promise<Overrides>)
+    | ((context: RequestContext) => Overrides)
+    | ((context: RequestContext) => Promise<Overrides>)
   /**
    * Overrides applied to signer message requests.
    */
   signerOverrides?:
     | Overrides
-    | ((chainId: string) => Overrides)
-    | ((chainId: string) => Promise<Overrides>)
+    | ((chainId: string, context: RequestContext) => Overrides)
+    | ((chainId: string, context: RequestContext) => Promise<Overrides>)
   /**
-   * Restrict iframe origins that are allowed to connect to this listening
-   * instance of Cosmiframe. If undefined or empty, all origins are allowed.
+   * Restrict iframe origins that are allowed to connect. If undefined or
+   * empty, all origins are allowed.
    *
    * It is safe to allow all origins since the current window is the listening
    * parent and is responsible for handling signing requests from the iframe.
@@ -170,6 +372,854 @@ export type ListenOptions = {
    * shown by the iframe.
    */
   metadata?: ParentMetadata
+  /**
+   * A declarative policy evaluated before non-internal requests are
+   * dispatched to the target or signers. If a function, it is called with the
+   * origin of the iframe that sent the request and the request context.
+   */
+  policy?:
+    | ListenPolicy
+    | ((origin: string, context: RequestContext) => ListenPolicy)
+    | ((origin: string, context: RequestContext) => Promise<ListenPolicy>)
+  /**
+   * A hook called before non-internal requests are dispatched to the target
+   * or signers, after the policy allows them. If it returns false or a denied
+   * result, the request is rejected.
+   */
+  authorize?: (
+    request: RequestMethodCallMessage,
+    context: RequestContext
+  ) => AuthorizeResult | Promise<AuthorizeResult>
+  /**
+   * Called with each audit event: when a request is received, rejected by the
+   * source, origin or shape check, handled by an override, dispatched, and
+   * when it succeeds or fails.
+   */
+  onAuditEvent?: (event: AuditEvent) => void
+  /**
+   * Called with errors that cannot be surfaced to the iframe, such as failing
+   * to handle a message, send an event or record an audit event. Errors are
+   * ignored by default.
+   */
+  onError?: ErrorHandler
+  /**
+   * Records audit events in a bounded in-memory log that can be queried and
+   * exported.
+   */
+  auditLog?: CosmiframeAuditLog
+  /**
+   * Limits the rate and concurrency of requests per iframe origin. Requests
+   * over the limits are rejected with a `CosmiframeRateLimitedError`.
+   */
+  rateLimiter?: CosmiframeRateLimiter
+  /**
+   * Whether or not to reject requests from the iframe that are not sent over a
+   * secure channel, apart from those needed to establish one. Events are then
+   * only sent over secure channels too. Defaults to false.
+   */
+  requireSecureChannel?: boolean
+  /**
+   * Whether or not the iframe is trusted to relay requests from frames it
+   * embeds. Requests from other iframes that claim to be relayed are rejected.
+   * The frames a request was relayed from are reported by the iframe itself,
+   * so only use them to restrict requests, never to grant more access.
+   * Defaults to false.
+   */
+  allowRelayedRequests?: boolean
+  /**
+   * Limits on requests received from the iframe. Requests that exceed them
+   * are rejected with a `CosmiframeInvalidRequestError`.
+   */
+  limits?: MessageLimits
+  /**
+   * Validators for the params and results of methods, keyed by method. Signer
+   * methods are keyed by name too, such as `signDirect`. Invalid params are
+   * rejected with a `CosmiframeInvalidRequestError` before the request is
+   * authorized, and invalid results are sent to the iframe as a
+   * `CosmiframeInvalidResponseError`.
+   */
+  validators?: Partial<Record<string, MethodValidator>>
+  /**
+   * Sign doc fields the parent's signers may change before signing, such as
+   * the fee when adjusting gas, with the reason given for each. Changes to
+   * these fields are reported to the iframe alongside the response, so its
+   * signers can tell declared changes from tampering.
+   */
+  signDocModifications?: Partial<Record<SignDocField, string>>
+}
+
+/**
+ * Options passed when creating a host, shared by all iframes registered with
+ * it. Iframe options set here are used for iframes that do not set them.
+ */
+export type HostOptions<TTarget extends object = Record<string, any>> =
+  HostIframeOptions & {
+    /**
+     * The client or object whose methods to call.
+     */
+    target: TTarget
+    /**
+     * A function to retrieve the offline direct signer.
+     */
+    getOfflineSignerDirect: (
+      chainId: string,
+      context: RequestContext
+    ) => OfflineDirectSigner | Promise<OfflineDirectSigner>
+    /**
+     * A function to retrieve the offline amino signer.
+     */
+    getOfflineSignerAmino: (
+      chainId: string,
+      context: RequestContext
+    ) => OfflineAminoSigner | Promise<OfflineAminoSigner>
+    /**
+     * A function to report which signing methods the key for a chain supports.
+     * Defaults to checking the signers returned by the factories and the
+     * target's `signArbitrary` method, and treating keys reported as Ledger or
+     * Keystone by the target's `getKey` as hardware keys that only support
+     * amino signing, like Keplr does. Only called for requests that pass the
+     * session, policy, authorization and rate limit checks for `getKey` on the
+     * chain.
+     */
+    getSignerCapabilities?: (
+      chainId: string,
+      context: RequestContext
+    ) =>
+      | Omit<SignerCapabilities, 'chainId'>
+      | Promise<Omit<SignerCapabilities, 'chainId'>>
+    /**
+     * The target methods reported to the iframe in the handshake. Defaults to
+     * the functions on the target and the non-signer overrides.
+     */
+    methods?: string[]
+    /**
+     * Registry used to decode the messages of direct sign docs. Messages with
+     * unregistered type URLs are left encoded.
+     */
+    registry?: Registry
+    /**
+     * Amino types used to convert the messages of amino sign docs into their
+     * type URLs and proto values, such as `AminoTypes` from `@cosmjs/stargate`.
+     * Messages that cannot be converted are left as amino values.
+     */
+    aminoTypes?: AminoTypesLike
+    /**
+     * The codec used to decode params and encode results for iframes that
+     * encode requests with the same codec version. Defaults to the built-in
+     * codec.
+     */
+    codec?: CosmiframeCodec
+    /**
+     * Tracks sessions per iframe origin: which chain IDs were enabled and which
+     * accounts were exposed. Requests from origins whose sessions were revoked
+     * are rejected until the parent restores them with `grant`.
+     */
+    sessions?: CosmiframeSessions
+    /**
+     * Relay requests not handled by overrides to this instead of the target and
+     * signers, appending the iframe's origin to the request's provenance. This
+     * is set when a `Cosmiframe` client relays requests from its own iframe.
+     */
+    relay?: RelayTarget
+  }
+
+/**
+ * A message received over a transport.
+ */
+export type TransportMessage<T = any> = {
+  data: T
+  /**
+   * The origin of the side that sent the message, as reported by the browser
+   * or, for transports that cannot report it, as verified when the transport
+   * was created.
+   */
+  origin: string
+}
+
+/**
+ * Carries messages between the iframe and parent, such as `postMessage` on a
+ * window, a `MessagePort` or a `BroadcastChannel`. A transport only delivers
+ * messages from the other side, and the origins it reports are trusted, so
+ * custom transports must verify them.
+ */
+export type CosmiframeTransport = {
+  /**
+   * Send a message to the other side. It is only delivered if the other side
+   * is at the target origin, unless the target origin is `*`.
+   */
+  postMessage: (
+    message: unknown,
+    targetOrigin: string,
+    transfer?: Transferable[]
+  ) => void
+  /**
+   * Listen for messages from the other side. Returns a function that can be
+   * called to stop listening.
+   */
+  listen: (handler: (message: TransportMessage) => void) => () => void
+  /**
+   * Release the transport's resources, such as its port.
+   */
+  close?: () => void
+}
+
+/**
+ * Something a host listens to requests from: an iframe or a popup window, which
+ * it exchanges messages with, or a transport.
+ */
+export type HostPeer = HTMLIFrameElement | Window | CosmiframeTransport
+
+/**
+ * Options passed when setting up listening by the parent.
+ */
+export type ListenOptions<TTarget extends object = Record<string, any>> =
+  HostOptions<TTarget> &
+    (
+      | {
+          /**
+           * The iframe HTML element to listen to.
+           */
+          iframe: HTMLIFrameElement
+          popup?: never
+          transport?: never
+        }
+      | {
+          iframe?: never
+          /**
+           * The popup window to listen to instead of an iframe, such as the
+           * window returned by `window.open`, for apps that cannot be framed.
+           */
+          popup: Window
+          transport?: never
+        }
+      | {
+          iframe?: never
+          popup?: never
+          /**
+           * The transport to listen to instead of an iframe, such as a
+           * `BroadcastChannel` transport shared with an app in another tab.
+           */
+          transport: CosmiframeTransport
+        }
+    )
+
+/**
+ * The methods of a target, called on the parent and returning promises of
+ * their results. Properties that are not methods are omitted.
+ */
+export type PromisifiedTarget<TTarget> = {
+  [K in keyof TTarget as TTarget[K] extends (...params: any[]) => any
+    ? K
+    : never]: TTarget[K] extends (...params: infer P) => infer R
+    ? (...params: P) => Promise<Awaited<R>>
+    : never
+}
+
+/**
+ * The proxy object used to call methods on the parent. Clients without a
+ * target type can call any method with any params.
+ */
+export type CosmiframeProxy<TTarget extends object = any> =
+  unknown extends TTarget
+    ? { [key: string]: <T = any>(...params: any[]) => Promise<T> }
+    : PromisifiedTarget<Omit<TTarget, 'getEnigmaUtils'>> & {
+        getEnigmaUtils: (chainId: string) => SecretUtils
+      }
+
+/**
+ * The methods of Keplr that can be called on the parent, to use as the target
+ * type of both the client and `listen`. Methods that return signers or
+ * utilities are omitted, since they cannot be sent between frames. Use the
+ * client's signer functions and `getKeplrClient` instead.
+ */
+export type KeplrTarget = Omit<
+  Keplr,
+  | 'version'
+  | 'mode'
+  | 'defaultOptions'
+  | 'getOfflineSigner'
+  | 'getOfflineSignerOnlyAmino'
+  | 'getOfflineSignerAuto'
+  | 'getEnigmaUtils'
+>
+
+/**
+ * Options passed when relaying requests from an iframe to the parent.
+ */
+export type RelayOptions = HostIframeOptions &
+  Pick<HostOptions, 'methods' | 'registry' | 'aminoTypes' | 'codec'> & {
+    /**
+     * The iframe HTML element to relay requests from.
+     */
+    iframe: HTMLIFrameElement
+    /**
+     * Events emitted by the parent to pass down to the iframe. Defaults to
+     * `KEPLR_KEYSTORE_CHANGE_EVENT`.
+     */
+    events?: string[]
+  }
+
+/**
+ * A list of allowed parent origins published by the parent, so embedded apps
+ * can allow new deployments without being redeployed.
+ */
+export type OriginManifest = {
+  /**
+   * Allowed parent origins.
+   */
+  origins: string[]
+  /**
+   * Sources of regular expressions matching allowed parent origins. Each must
+   * match the whole origin.
+   */
+  patterns?: string[]
+  /**
+   * When the manifest was issued, in milliseconds since the epoch. Manifests
+   * issued before the cached one are rejected.
+   */
+  issuedAt: number
+  /**
+   * When the manifest expires, in milliseconds since the epoch.
+   */
+  expiresAt: number
+}
+
+/**
+ * An origin manifest with its signature.
+ */
+export type SignedOriginManifest = {
+  /**
+   * The JSON-encoded `OriginManifest`, exactly as signed.
+   */
+  payload: string
+  /**
+   * The base64-encoded ECDSA P-256 SHA-256 signature of the payload.
+   */
+  signature: string
+}
+
+/**
+ * Storage used to persist data, compatible with `localStorage`.
+ */
+export type CosmiframeStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>
+  setItem: (key: string, value: string) => void | Promise<void>
+  removeItem: (key: string) => void | Promise<void>
+}
+
+/**
+ * An account exposed to an iframe origin.
+ */
+export type SessionAccount = {
+  chainId: string
+  address: string
+}
+
+/**
+ * The permissions granted to an iframe origin.
+ */
+export type Session = {
+  origin: string
+  /**
+   * Chain IDs the origin enabled.
+   */
+  chainIds: string[]
+  /**
+   * Accounts exposed to the origin.
+   */
+  accounts: SessionAccount[]
+  /**
+   * When the session was first granted, in milliseconds since the epoch.
+   */
+  grantedAt: number
+  /**
+   * When the session was last updated, in milliseconds since the epoch.
+   */
+  updatedAt: number
+  /**
+   * When the session was revoked, in milliseconds since the epoch, if it was.
+   */
+  revokedAt?: number
+}
+
+/**
+ * The stages of a request reported in audit events.
+ */
+export type AuditEventType =
+  | 'received'
+  | 'rejected'
+  | 'overridden'
+  | 'dispatched'
+  | 'succeeded'
+  | 'failed'
+
+/**
+ * Why a message was rejected before being processed as a request.
+ */
+export type AuditRejection = 'source' | 'origin' | 'shape' | 'channel'
+
+/**
+ * A structured record of a stage of a request received by the parent.
+ */
+export type AuditEvent = {
+  type: AuditEventType
+  /**
+   * When the event occurred, in milliseconds since the epoch.
+   */
+  timestamp: number
+  /**
+   * The origin of the frame that sent the message.
+   */
+  origin: string
+  /**
+   * Why the message was rejected, for rejected events.
+   */
+  rejection?: AuditRejection
+  requestId?: string
+  method?: string
+  chainId?: string
+  signerType?: SignerType
+  internal?: boolean
+  relayedFrom?: string[]
+  /**
+   * The decoded sign doc, for received sign requests.
+   */
+  signDoc?: DecodedSignDoc
+  /**
+   * The time in milliseconds since the request was received, for succeeded
+   * and failed events.
+   */
+  duration?: number
+  /**
+   * The error the request failed with, for failed events.
+   */
+  error?: {
+    code: string
+    message: string
+  }
+}
+
+/**
+ * Filters for querying the audit log. Events must match every filter set.
+ */
+export type AuditLogQuery = {
+  type?: AuditEventType | AuditEventType[]
+  origin?: string
+  requestId?: string
+  method?: string
+  chainId?: string
+  /**
+   * Only events that occurred at or after this time, in milliseconds since the
+   * epoch.
+   */
+  since?: number
+  /**
+   * Only events that occurred before this time, in milliseconds since the
+   * epoch.
+   */
+  until?: number
+  /**
+   * Return at most this many of the most recent matching events.
+   */
+  limit?: number
+}
+
+/**
+ * Options passed when creating a client in the iframe.
+ */
+export type CosmiframeOptions = {
+  /**
+   * The codec used to encode params and decode results, allowing values such
+   * as `Uint8Array`s and `bigint`s to be sent reliably. Parents that do not
+   * support it receive the raw params. Defaults to the built-in codec.
+   */
+  codec?: CosmiframeCodec
+  /**
+   * Automatically coalesce calls made in the same tick into a single batch
+   * request if the parent supports batching. Calls with explicit call
+   * options and internal calls are sent individually. Defaults to false.
+   */
+  batch?: boolean
+  /**
+   * Default timeouts in milliseconds keyed by method, used for calls that do
+   * not set a timeout. Signer methods are keyed by name too, such as
+   * `signDirect`.
+   *
+   * For example:
+   *
+   * { getKey: 5_000, signDirect: 300_000 }
+   */
+  timeouts?: Partial<Record<string, number>>
+  /**
+   * Establish a secure channel with the parent using an ECDH key exchange
+   * before sending any requests. Requests are then only sent to the verified
+   * parent origin, and all messages are encrypted and authenticated, with
+   * replayed messages rejected. If `required`, requests fail with a
+   * `CosmiframeSecureChannelError` when the parent does not support secure
+   * channels. If `preferred`, they fall back to unencrypted messages. Defaults
+   * to no secure channel.
+   */
+  secure?: 'required' | 'preferred'
+  /**
+   * Load the allowed parent origins from a signed manifest, using the origins
+   * passed to the constructor only if no valid manifest can be loaded.
+   * Requests wait for the manifest to load, and it is loaded again once it
+   * expires.
+   */
+  manifest?: CosmiframeOriginManifest
+  /**
+   * Limits on responses received from the parent. Responses that exceed them
+   * are rejected with a `CosmiframeInvalidResponseError`.
+   */
+  limits?: MessageLimits
+  /**
+   * Validators for the params and results of methods, keyed by method. Signer
+   * methods are keyed by name too, such as `signDirect`. Calls with invalid
+   * params are rejected with a `CosmiframeInvalidRequestError` without being
+   * sent, and invalid results with a `CosmiframeInvalidResponseError`.
+   */
+  validators?: Partial<Record<string, MethodValidator>>
+  /**
+   * The transport used to talk to the parent. Defaults to `postMessage` on
+   * `window.parent`, or `window.opener` if the app was opened as a popup.
+   */
+  transport?: CosmiframeTransport
+  /**
+   * After the handshake, hand off communication to a dedicated
+   * `MessageChannel`, transferring one of its ports to the verified parent
+   * origin so no other window can observe or send messages. Parents that do
+   * not support ports keep using the transport. Defaults to false.
+   */
+  messagePort?: boolean
+  /**
+   * Whether or not the signers created by the client check that the doc
+   * signed by the parent matches the one requested, or options for the check.
+   * Changes are rejected with a `CosmiframeSignDocModifiedError` unless they
+   * were declared by the parent and allowed. Defaults to false.
+   */
+  signDocIntegrity?: boolean | SignDocIntegrityOptions
+  /**
+   * Called with errors that cannot be surfaced to a caller, such as an event
+   * handler throwing. Errors are ignored by default.
+   */
+  onError?: ErrorHandler
+}
+
+/**
+ * Called with a description of what failed and the error, for errors that
+ * cannot be surfaced to a caller. Pass `console.error` to log them.
+ */
+export type ErrorHandler = (message: string, error: unknown) => void
+
+/**
+ * Limits on the messages sent between the iframe and parent, checked on
+ * receipt.
+ */
+export type MessageLimits = {
+  /**
+   * The maximum length of IDs, method names, chain IDs and other short
+   * strings. Defaults to 256.
+   */
+  maxStringLength?: number
+  /**
+   * The maximum number of params in a request. Defaults to 64.
+   */
+  maxParams?: number
+  /**
+   * The maximum nesting depth of objects and arrays in a message. Defaults to
+   * 64.
+   */
+  maxDepth?: number
+  /**
+   * The maximum size of a message, measured as the length of its JSON encoding
+   * with the built-in codec. Defaults to 16 MiB.
+   */
+  maxSize?: number
+}
+
+/**
+ * Validates the params and result of a method, such as with a schema. Each
+ * function fails if it throws or returns false.
+ *
+ * For example:
+ *
+ * {
+ *   getKey: {
+ *     params: ([chainId]) => typeof chainId === 'string',
+ *     result: (key) => keySchema.parse(key),
+ *   },
+ * }
+ */
+export type MethodValidator = {
+  params?: (params: any[]) => unknown
+  result?: (result: any) => unknown
+}
+
+/**
+ * An object that converts amino messages into proto messages, matching
+ * `AminoTypes` from `@cosmjs/stargate`.
+ */
+export type AminoTypesLike = {
+  fromAmino: (aminoMsg: AminoMsg) => EncodeObject
+}
+
+/**
+ * A message in a decoded sign doc.
+ */
+export type DecodedMessage = {
+  /**
+   * The type URL of the message. This is always set for direct sign docs, and
+   * set for amino sign docs when the message could be converted.
+   */
+  typeUrl?: string
+  /**
+   * The amino type of the message. This is only set for amino sign docs.
+   */
+  aminoType?: string
+  /**
+   * The value of the message. For direct sign docs, this is the decoded value
+   * if the type URL is registered and the encoded bytes otherwise. For amino
+   * sign docs, this is the proto value if the message could be converted and
+   * the amino value otherwise.
+   */
+  value: any
+}
+
+/**
+ * A normalized, decoded view of a direct or amino sign doc.
+ */
+export type DecodedSignDoc = {
+  signerType: SignerType
+  signerAddress: string
+  chainId: string
+  accountNumber: string
+  sequence: string
+  memo: string
+  fee: {
+    amount: Coin[]
+    gas: string
+    granter?: string
+    payer?: string
+  }
+  messages: DecodedMessage[]
+}
+
+/**
+ * A field of a sign doc the parent may change before signing it.
+ */
+export type SignDocField =
+  | 'chainId'
+  | 'accountNumber'
+  | 'sequence'
+  | 'fee'
+  | 'memo'
+  | 'messages'
+
+/**
+ * A change to a sign doc the parent declared, sent to the iframe alongside
+ * the response.
+ */
+export type SignDocModification = {
+  field: SignDocField
+  /**
+   * Why the parent changed the field, such as "Adjusted gas."
+   */
+  reason?: string
+}
+
+/**
+ * A change to a sign doc found by the iframe when comparing the signed doc to
+ * the one it requested.
+ */
+export type SignDocChange = SignDocModification & {
+  /**
+   * Whether or not the parent declared the change.
+   */
+  declared: boolean
+}
+
+/**
+ * Options for checking that the parent signed the sign doc the iframe
+ * requested.
+ */
+export type SignDocIntegrityOptions = {
+  /**
+   * Fields the parent may change if it declares the change, such as `fee`.
+   * Defaults to none.
+   */
+  allow?: SignDocField[]
+  /**
+   * Called with the changes if they were all declared and allowed, such as to
+   * show them to the user. Throw to reject the response. Other changes always
+   * throw a `CosmiframeSignDocModifiedError`.
+   */
+  onModified?: (
+    changes: SignDocChange[],
+    docs: {
+      requested: DecodedSignDoc
+      signed: DecodedSignDoc
+    }
+  ) => void | Promise<void>
+}
+
+/**
+ * Options used by every request from a signer.
+ */
+export type SignerOptions = CallOptions & {
+  /**
+   * Whether or not to check that the doc signed by the parent matches the one
+   * requested, or options for the check. Defaults to false.
+   */
+  integrity?: boolean | SignDocIntegrityOptions
+  /**
+   * The codec used to encode params and decode results when the signer is
+   * given parent origins instead of a client.
+   */
+  codec?: CosmiframeCodec
+}
+
+/**
+ * Lists of values to allow and deny. A value in `deny` is always denied. If
+ * `allow` is set, only values in it are allowed.
+ */
+export type PolicyList<T = string> = {
+  allow?: T[]
+  deny?: T[]
+}
+
+/**
+ * A declarative policy applied by the parent to requests from the iframe.
+ */
+export type ListenPolicy = {
+  /**
+   * Iframe origins allowed to make requests. Relayed requests are only allowed
+   * if every frame they passed through is allowed.
+   */
+  origins?: PolicyList<Origin>
+  /**
+   * The maximum number of frames a request can be relayed through before
+   * reaching the iframe. 0 denies relayed requests. Defaults to no limit.
+   */
+  maxRelayDepth?: number
+  /**
+   * Chain IDs allowed in signer requests and in target methods that take chain
+   * IDs as their first param, such as `enable` and `getKey`.
+   */
+  chainIds?: PolicyList
+  /**
+   * Methods allowed to be called, on both the target and signers.
+   */
+  methods?: PolicyList
+  /**
+   * Messages allowed in sign requests, identified by their type URL or amino
+   * type. Every message must be allowed for a sign request to be allowed.
+   * Amino sign doc messages only have type URLs if `aminoTypes` can convert
+   * them, and are otherwise only allowed if their amino type is in the allow
+   * list. Requests whose messages cannot be decoded, such as `signDirectAux`,
+   * EIP-712 and `sendTx` requests, are denied.
+   */
+  messageTypes?: PolicyList
+}
+
+/**
+ * Information about a request, provided to the parent's hooks, overrides and
+ * signer factories.
+ */
+export type RequestContext = {
+  /**
+   * The ID of the request. Calls in a batch have the batch's ID followed by
+   * their index.
+   */
+  id: string
+  /**
+   * The origin of the iframe that sent the request.
+   */
+  origin: string
+  /**
+   * The iframe that sent the request, unless a popup or transport was
+   * registered instead.
+   */
+  iframe?: HTMLIFrameElement
+  /**
+   * The popup window that sent the request, if it was registered instead of
+   * an iframe.
+   */
+  popup?: Window
+  /**
+   * The transport the request was received over, which the response is sent
+   * back over.
+   */
+  transport: CosmiframeTransport
+  /**
+   * The chain ID of signer requests, or the chain ID passed as the first param
+   * of target methods that take one, such as `getKey`.
+   */
+  chainId?: string
+  /**
+   * The signer type of signer requests.
+   */
+  signerType?: SignerType
+  /**
+   * Whether or not this is an internal request.
+   */
+  internal: boolean
+  /**
+   * When the request was received, in milliseconds since the epoch.
+   */
+  receivedAt: number
+  /**
+   * The decoded sign doc, if this is a sign request.
+   */
+  signDoc?: DecodedSignDoc
+  /**
+   * The origins of the frames the request was relayed from before reaching
+   * the iframe, starting with the one that made it, for iframes allowed to
+   * relay requests. This is reported by the iframe and cannot be verified, so
+   * only use it to restrict requests, never to grant more access. Undefined if
+   * the iframe made the request itself.
+   */
+  relayedFrom?: string[]
+  /**
+   * Aborted when the iframe cancels the request, such as when the user closes
+   * the iframe's modal. Use this to dismiss pending approval UI.
+   */
+  signal?: AbortSignal
+  /**
+   * Whether or not the request was received over a secure channel.
+   */
+  secure: boolean
+}
+
+/**
+ * The result of authorizing a request. Returning true or an allowed result
+ * lets the request through.
+ */
+export type AuthorizeResult =
+  | boolean
+  | {
+      allowed: boolean
+      /**
+       * The reason a request was denied, sent back to the iframe.
+       */
+      reason?: string
+    }
+
+/**
+ * The handle returned by the parent when it starts listening. Calling it (or
+ * its `stop` function) stops listening, and `emit` sends an event to the
+ * iframe.
+ */
+export type ListenHandle = {
+  (): void
+  /**
+   * Stop listening.
+   */
+  stop: () => void
+  /**
+   * Send an event to the iframe. The iframe can subscribe to events using the
+   * `on` function of the client.
+   */
+  emit: <T = any>(event: string, payload?: T) => void
 }
 
 export type ParentMetadata = {
@@ -183,4 +1233,100 @@ export type ParentMetadata = {
 export enum InternalMethod {
   IsCosmiframe = 'isCosmiframe',
   GetMetadata = 'getMetadata',
+  Handshake = 'handshake',
+  Batch = 'batch',
+  KeyExchange = 'keyExchange',
+  OpenPort = 'openPort',
+  GetSignerCapabilities = 'getSignerCapabilities',
+}
+
+/**
+ * Protocol features that the iframe and parent may support.
+ */
+export enum CosmiframeFeature {
+  /**
+   * The parent can emit events to the iframe.
+   */
+  Events = 'events',
+  /**
+   * Params and results can be encoded with a codec.
+   */
+  Codec = 'codec',
+  /**
+   * Errors carry codes that are rehydrated into typed errors.
+   */
+  TypedErrors = 'typedErrors',
+  /**
+   * Many calls can be sent in a single batch request.
+   */
+  Batching = 'batching',
+  /**
+   * Requests cancelled by the iframe are aborted.
+   */
+  Cancellation = 'cancellation',
+  /**
+   * Messages can be encrypted with a secure channel.
+   */
+  SecureChannel = 'secureChannel',
+  /**
+   * Communication can be handed off to a dedicated `MessagePort`.
+   */
+  MessagePort = 'messagePort',
+  /**
+   * The parent reports which signing methods its key for a chain supports.
+   */
+  SignerCapabilities = 'signerCapabilities',
+}
+
+/**
+ * The info each side sends in the handshake.
+ */
+export type HandshakeInfo = {
+  /**
+   * The protocol version. Older parents that do not support the handshake are
+   * reported as version 0.
+   */
+  protocolVersion: number
+  /**
+   * Supported features. This may include features unknown to the other side.
+   */
+  features: (CosmiframeFeature | string)[]
+  /**
+   * The version of the codec in use, if any.
+   */
+  codec?: string
+}
+
+/**
+ * Which signing methods the parent's key for a chain supports.
+ */
+export type SignerCapabilities = {
+  chainId: string
+  /**
+   * Whether or not amino sign docs can be signed.
+   */
+  amino: boolean
+  /**
+   * Whether or not direct sign docs can be signed.
+   */
+  direct: boolean
+  /**
+   * Whether or not arbitrary data can be signed with `signArbitrary`.
+   */
+  signArbitrary: boolean
+  /**
+   * Whether or not the key is on a hardware wallet, such as a Ledger.
+   */
+  hardware: boolean
+}
+
+/**
+ * The parent's capabilities, returned from the handshake.
+ */
+export type Capabilities = HandshakeInfo & {
+  /**
+   * The target methods the parent exposes. This is undefined if the parent
+   * does not support the handshake and so cannot report them.
+   */
+  methods?: string[]
 }
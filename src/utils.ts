@@ -1,12 +1,11 @@
-import { v4 as uuidv4 } from 'uuid'
-
-import { CosmiframeTimeoutError } from './error'
+import { CosmiframeHandledByParentError, serializeError } from './error'
 import {
-  CalledParentMethodResult,
+  CallOptions,
+  CosmiframeStorage,
   MethodCallResultMessageNoId,
   Origin,
   OverrideHandler,
-  RequestMethodCallMessageNoId,
+  RequestMethodCallMessage,
 } from './types'
 
 /**
@@ -16,86 +15,126 @@ import {
 export const UNSAFE_ALLOW_ANY_ORIGIN = 'UNSAFE_ALLOW_ANY_ORIGIN'
 
 /**
- * Send message call request to parent and listen for the result, only accepting
- * results from parents of allowed origins. Returns a promise that resolves with
- * the result on success or rejects with an error.
+ * The event Keplr dispatches on the window when the user switches accounts.
+ * Parents can emit this event to the iframe to mirror Keplr's behavior.
  */
-export const callParentMethod = <T = any>(
-  message: RequestMethodCallMessageNoId,
-  origins: Origin[],
-  /**
-   * The timeout in milliseconds after which to reject the promise and stop
-   * listening if the parent has not responded. If undefined, no timeout.
-   *
-   * Defaults to no timeout.
-   */
-  timeout?: number
-): Promise<CalledParentMethodResult<T>> =>
-  new Promise<CalledParentMethodResult<T>>((resolve, reject) => {
-    let timeoutId: number | null = null
-    const id = uuidv4()
-
-    // Add one-time listener that waits for a response for the request we're
-    // about to send.
-    const listener = ({ origin, source, data }: MessageEvent) => {
-      // Verify we are receiving a response for the correct request from an
-      // allowed parent.
-      if (
-        !isOriginAllowed(origins, origin) ||
-        source !== window.parent ||
-        data.id !== id
-      ) {
-        return
-      }
+export const KEPLR_KEYSTORE_CHANGE_EVENT = 'keplr_keystorechange'
 
-      // Remove listener once we receive a response for the correct request.
-      window.removeEventListener('message', listener)
+/**
+ * The version of the protocol spoken between the iframe and parent, exchanged
+ * in the handshake.
+ */
+export const PROTOCOL_VERSION = 1
 
-      // Remove timeout if set.
-      if (timeoutId !== null) {
-        clearTimeout(timeoutId)
-      }
+/**
+ * Keplr methods on the target that take a chain ID, or a list of them, as
+ * their first param.
+ */
+const CHAIN_ID_TARGET_METHODS = [
+  'enable',
+  'disable',
+  'getKey',
+  'getKeysSettled',
+  'signAmino',
+  'signDirect',
+  'signDirectAux',
+  'signArbitrary',
+  'verifyArbitrary',
+  'signEthereum',
+  'signICNSAdr36',
+  'experimentalSignEIP712CosmosTx_v0',
+  'sendTx',
+  'suggestToken',
+  'getSecret20ViewingKey',
+  'getEnigmaPubKey',
+  'getEnigmaTxEncryptionKey',
+  'getEnigmaUtils',
+  'enigmaEncrypt',
+  'enigmaDecrypt',
+  'getOfflineSigner',
+  'getOfflineSignerOnlyAmino',
+  'getOfflineSignerAuto',
+  'getChainInfoWithoutEndpoints',
+]
 
-      if (data.type === 'success') {
-        resolve({
-          result: data.response,
-          origin,
-        })
-      } else {
-        reject(new Error(data.error))
-      }
-    }
+/**
+ * Returns the chain IDs a request targets: the chain ID of signer requests,
+ * or the chain IDs passed as the first param of Keplr-style target methods,
+ * such as `enable` and `getKey`.
+ */
+export const getRequestChainIds = ({
+  method,
+  params,
+  chainId,
+  signerType,
+  internal,
+}: Pick<
+  RequestMethodCallMessage,
+  'method' | 'params' | 'chainId' | 'signerType' | 'internal'
+>): string[] => {
+  if (signerType || internal) {
+    return chainId ? [chainId] : []
+  }
+
+  return CHAIN_ID_TARGET_METHODS.includes(method)
+    ? [params[0]].flat().filter((id): id is string => typeof id === 'string')
+    : []
+}
 
-    window.addEventListener('message', listener)
+/**
+ * Returns the names of the functions on an object, including inherited ones.
+ */
+export const getMethodNames = (object: object): string[] => {
+  const names = new Set<string>()
 
-    try {
-      const data = {
-        ...message,
-        id,
+  for (
+    let current = object;
+    current && current !== Object.prototype;
+    current = Object.getPrototypeOf(current)
+  ) {
+    Object.getOwnPropertyNames(current).forEach((name) => {
+      // Check the descriptor to avoid invoking getters.
+      if (
+        name !== 'constructor' &&
+        typeof Object.getOwnPropertyDescriptor(current, name)?.value ===
+          'function'
+      ) {
+        names.add(name)
       }
+    })
+  }
 
-      // Send the message to our parent of any origin. This is safe because we
-      // will only accept responses back from parents of allowed origins.
-      window.parent.postMessage(data, '*')
-    } catch (err) {
-      // If fails to send, remove the listener and reject.
-      window.removeEventListener('message', listener)
-      reject(err)
-    }
+  return [...names]
+}
 
-    // If timeout is set, add a timeout listener that will reject the promise
-    // if the parent has not responded.
-    if (timeout) {
-      timeoutId = setTimeout(() => {
-        window.removeEventListener('message', listener)
-        reject(
-          new CosmiframeTimeoutError(
-            `Timed out after ${timeout}ms waiting for parent to respond.`
-          )
-        )
-      }, timeout)
-    }
-  })
+/**
+ * Encode bytes as base64.
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 into bytes.
+ */
+export const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Normalize call options, which may be a timeout in milliseconds.
+ */
+export const toCallOptions = (options?: number | CallOptions): CallOptions =>
+  typeof options === 'number' ? { timeout: options } : options || {}
 
 /**
  * Convert override handler into a method call result message. If the override
@@ -105,12 +144,12 @@ export const processOverrideHandler = (
   handler: OverrideHandler
 ): MethodCallResultMessageNoId | undefined => {
   if (!handler || handler.type === 'error') {
-    return {
-      type: 'error',
-      error:
-        (handler && handler.type === 'error' && handler.error) ||
-        'Handled by outer wallet.',
-    }
+    const error = handler?.error
+    return serializeError(
+      error instanceof Error
+        ? error
+        : new CosmiframeHandledByParentError(error || undefined)
+    )
   } else if (handler.type === 'success') {
     return {
       type: 'success',
@@ -119,12 +158,45 @@ export const processOverrideHandler = (
   }
 }
 
+/**
+ * Create storage that keeps data in memory.
+ */
+export const createMemoryStorage = (): CosmiframeStorage => {
+  const data = new Map<string, string>()
+
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value)
+    },
+    removeItem: (key) => {
+      data.delete(key)
+    },
+  }
+}
+
 /**
  * Returns whether or not the current app is being used in an iframe.
  */
 export const isInIframe = () =>
   typeof window !== 'undefined' && window.self !== window.parent
 
+/**
+ * Returns whether or not the current app is being used in a popup, meaning it
+ * was opened by another window with `window.open`.
+ */
+export const isInPopup = () =>
+  typeof window !== 'undefined' &&
+  !!window.opener &&
+  window.opener !== window.self
+
+/**
+ * Returns the window hosting the current app: the parent if it is being used
+ * in an iframe, or the opener if it is being used in a popup.
+ */
+export const getHostWindow = (): Window | undefined =>
+  isInIframe() ? window.parent : isInPopup() ? window.opener : undefined
+
 /**
  * Returns whether or not the origin is allowed.
  */
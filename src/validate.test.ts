@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  CosmiframeInvalidRequestError,
+  CosmiframeInvalidResponseError,
+} from './error'
+import {
+  validateParams,
+  validateRequestMessage,
+  validateResult,
+  validateResultMessage,
+} from './validate'
+
+const request = {
+  id: 'id',
+  method: 'getKey',
+  params: ['juno-1'],
+}
+
+/**
+ * Nest an empty object in the given number of objects.
+ */
+const nest = (depth: number): unknown =>
+  depth > 0 ? { value: nest(depth - 1) } : {}
+
+describe('validateRequestMessage', () => {
+  it('accepts well-formed requests', () => {
+    expect(validateRequestMessage(request)).toBe(request)
+  })
+
+  it('rejects malformed requests', () => {
+    expect(() => validateRequestMessage('request')).toThrow(
+      new CosmiframeInvalidRequestError('Request must be an object.')
+    )
+    expect(() =>
+      validateRequestMessage({ ...request, params: 'juno-1' })
+    ).toThrow('Invalid params in request.')
+    expect(() =>
+      validateRequestMessage({ ...request, signerType: 'ledger' })
+    ).toThrow('Invalid signerType in request.')
+  })
+
+  it('applies the default limits', () => {
+    expect(() =>
+      validateRequestMessage({ ...request, method: 'a'.repeat(257) })
+    ).toThrow('Invalid method in request.')
+    expect(() =>
+      validateRequestMessage({ ...request, params: new Array(65).fill(0) })
+    ).toThrow('Invalid params in request.')
+    expect(() =>
+      validateRequestMessage({ ...request, params: [nest(62)] })
+    ).toThrow('Request exceeds the maximum depth of 64.')
+    expect(
+      validateRequestMessage({ ...request, params: [nest(61)] })
+    ).toBeDefined()
+  })
+
+  it('applies custom limits', () => {
+    expect(() =>
+      validateRequestMessage(
+        { ...request, params: ['a'.repeat(100)] },
+        { maxSize: 100 }
+      )
+    ).toThrow('Request exceeds the maximum size of 100.')
+    expect(() =>
+      validateRequestMessage(
+        { ...request, params: [{ value: {} }] },
+        { maxDepth: 3 }
+      )
+    ).toThrow('Request exceeds the maximum depth of 3.')
+    expect(() =>
+      validateRequestMessage({ ...request, params: [1, 2] }, { maxParams: 1 })
+    ).toThrow('Invalid params in request.')
+  })
+
+  it('does not count bytes as nested values', () => {
+    expect(
+      validateRequestMessage(
+        { ...request, params: [new Uint8Array(10)] },
+        { maxDepth: 2 }
+      )
+    ).toBeDefined()
+  })
+})
+
+describe('validateResultMessage', () => {
+  it('accepts well-formed results', () => {
+    const result = { id: 'id', type: 'success', response: 'key' }
+    expect(validateResultMessage(result)).toBe(result)
+  })
+
+  it('rejects results with a bad shape', () => {
+    expect(() => validateResultMessage(null)).toThrow(
+      new CosmiframeInvalidResponseError('Response must be an object.')
+    )
+    expect(() =>
+      validateResultMessage({ id: 'id', type: 'done', response: 'key' })
+    ).toThrow('Invalid type in response.')
+    expect(() => validateResultMessage({ id: 'id', type: 'error' })).toThrow(
+      'Invalid error in response.'
+    )
+    expect(() =>
+      validateResultMessage({
+        id: 'id',
+        type: 'success',
+        response: 'signed',
+        modifications: [{ field: 'signature' }],
+      })
+    ).toThrow('Invalid modifications in response.')
+  })
+
+  it('rejects results that exceed the limits', () => {
+    expect(() =>
+      validateResultMessage({ id: 'id', type: 'success', response: nest(64) })
+    ).toThrow('Response exceeds the maximum depth of 64.')
+    expect(() =>
+      validateResultMessage(
+        { id: 'id', type: 'success', response: 'a'.repeat(100) },
+        { maxSize: 100 }
+      )
+    ).toThrow('Response exceeds the maximum size of 100.')
+  })
+})
+
+describe('validateParams', () => {
+  it('rejects params that fail the method validator', () => {
+    const validators = {
+      getKey: {
+        params: ([chainId]: unknown[]) => typeof chainId === 'string',
+      },
+      signArbitrary: {
+        params: () => {
+          throw new Error('Data must be a string.')
+        },
+      },
+    }
+
+    expect(() => validateParams('getKey', ['juno-1'], validators)).not.toThrow()
+    expect(() => validateParams('enable', [1], validators)).not.toThrow()
+    expect(() => validateParams('getKey', [1], validators)).toThrow(
+      new CosmiframeInvalidRequestError("Invalid params for method 'getKey'.")
+    )
+    expect(() => validateParams('signArbitrary', [], validators)).toThrow(
+      "Invalid params for method 'signArbitrary': Data must be a string."
+    )
+  })
+})
+
+describe('validateResult', () => {
+  it('rejects results that fail the method validator', () => {
+    const validators = {
+      getKey: {
+        result: (key: unknown) => typeof key === 'object',
+      },
+    }
+
+    expect(() => validateResult('getKey', {}, validators)).not.toThrow()
+    expect(() => validateResult('getKey', 'key', validators)).toThrow(
+      new CosmiframeInvalidResponseError("Invalid result for method 'getKey'.")
+    )
+  })
+})
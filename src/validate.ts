@@ -0,0 +1,260 @@
+import { defaultCodec } from './codec'
+import {
+  CosmiframeInvalidRequestError,
+  CosmiframeInvalidResponseError,
+} from './error'
+import { SIGN_DOC_FIELDS } from './integrity'
+import {
+  MessageLimits,
+  MethodCallResultMessage,
+  MethodValidator,
+  RequestMethodCallMessage,
+} from './types'
+
+const SIGNER_TYPES = ['amino', 'direct']
+
+const DEFAULT_LIMITS: Required<MessageLimits> = {
+  maxStringLength: 256,
+  maxParams: 64,
+  maxDepth: 64,
+  maxSize: 16 * 1024 * 1024,
+}
+
+const isOptional = (
+  value: unknown,
+  check: (value: unknown) => boolean
+): boolean => value === undefined || check(value)
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+/**
+ * Returns whether or not a value is a list of sign doc modifications.
+ */
+const isSignDocModifications = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every(
+    (modification) =>
+      !!modification &&
+      typeof modification === 'object' &&
+      SIGN_DOC_FIELDS.includes(modification.field) &&
+      isOptional(modification.reason, isString)
+  )
+
+/**
+ * Returns whether or not objects and arrays in a value are nested deeper than
+ * the maximum depth, without recursing any further.
+ */
+const exceedsDepth = (value: unknown, maxDepth: number): boolean =>
+  !!value &&
+  typeof value === 'object' &&
+  !ArrayBuffer.isView(value) &&
+  (maxDepth <= 0 ||
+    Object.values(value).some((entry) => exceedsDepth(entry, maxDepth - 1)))
+
+/**
+ * Returns the reason a message exceeds the depth or size limits, if it does.
+ */
+const checkSize = (
+  data: unknown,
+  { maxDepth, maxSize }: Required<MessageLimits>
+): string | undefined => {
+  if (exceedsDepth(data, maxDepth)) {
+    return `exceeds the maximum depth of ${maxDepth}`
+  }
+
+  let size: number
+  try {
+    size = JSON.stringify(defaultCodec.encode(data))?.length ?? 0
+  } catch {
+    return 'cannot be serialized'
+  }
+
+  if (size > maxSize) {
+    return `exceeds the maximum size of ${maxSize}`
+  }
+}
+
+/**
+ * Validate a request message received from the iframe, throwing a
+ * `CosmiframeInvalidRequestError` if it is malformed or exceeds the limits.
+ */
+export const validateRequestMessage = (
+  data: unknown,
+  limits?: MessageLimits
+): RequestMethodCallMessage => {
+  const allLimits = {
+    ...DEFAULT_LIMITS,
+    ...limits,
+  }
+  const { maxStringLength, maxParams } = allLimits
+  const isShortString = (value: unknown): value is string =>
+    isString(value) && value.length <= maxStringLength
+
+  if (!data || typeof data !== 'object') {
+    throw new CosmiframeInvalidRequestError('Request must be an object.')
+  }
+
+  const request = data as Record<string, unknown>
+
+  const invalidField = [
+    !isShortString(request.id) || !request.id ? 'id' : undefined,
+    !isShortString(request.method) || !request.method ? 'method' : undefined,
+    !Array.isArray(request.params) || request.params.length > maxParams
+      ? 'params'
+      : undefined,
+    !isOptional(request.chainId, isShortString) ? 'chainId' : undefined,
+    !isOptional(request.signerType, (value) =>
+      SIGNER_TYPES.includes(value as string)
+    )
+      ? 'signerType'
+      : undefined,
+    !isOptional(request.signType, (value) =>
+      SIGNER_TYPES.includes(value as string)
+    )
+      ? 'signType'
+      : undefined,
+    !isOptional(request.internal, (value) => typeof value === 'boolean')
+      ? 'internal'
+      : undefined,
+    !isOptional(
+      request.relayedFrom,
+      (value) => Array.isArray(value) && value.every(isShortString)
+    )
+      ? 'relayedFrom'
+      : undefined,
+    !isOptional(request.codec, isShortString) ? 'codec' : undefined,
+    !isOptional(
+      request.encodedParams,
+      (value) => Array.isArray(value) && value.length <= maxParams
+    )
+      ? 'encodedParams'
+      : undefined,
+  ].find(Boolean)
+  if (invalidField) {
+    throw new CosmiframeInvalidRequestError(
+      `Invalid ${invalidField} in request.`
+    )
+  }
+
+  const sizeError = checkSize(data, allLimits)
+  if (sizeError) {
+    throw new CosmiframeInvalidRequestError(`Request ${sizeError}.`)
+  }
+
+  return data as RequestMethodCallMessage
+}
+
+/**
+ * Validate a result message received from the parent, throwing a
+ * `CosmiframeInvalidResponseError` if it is malformed or exceeds the limits.
+ */
+export const validateResultMessage = (
+  data: unknown,
+  limits?: MessageLimits
+): MethodCallResultMessage => {
+  const allLimits = {
+    ...DEFAULT_LIMITS,
+    ...limits,
+  }
+  const { maxStringLength } = allLimits
+
+  if (!data || typeof data !== 'object') {
+    throw new CosmiframeInvalidResponseError('Response must be an object.')
+  }
+
+  const result = data as Record<string, unknown>
+
+  const invalidField = [
+    !isString(result.id) ? 'id' : undefined,
+    result.type !== 'success' && result.type !== 'error' ? 'type' : undefined,
+    result.type === 'error' && !isString(result.error) ? 'error' : undefined,
+    result.type === 'error' &&
+    !isOptional(
+      result.code,
+      (value) => isString(value) && value.length <= maxStringLength
+    )
+      ? 'code'
+      : undefined,
+    result.type === 'error' && !isOptional(result.name, isString)
+      ? 'name'
+      : undefined,
+    !isOptional(result.codec, isString) ? 'codec' : undefined,
+    result.type === 'success' &&
+    !isOptional(result.modifications, isSignDocModifications)
+      ? 'modifications'
+      : undefined,
+  ].find(Boolean)
+  if (invalidField) {
+    throw new CosmiframeInvalidResponseError(
+      `Invalid ${invalidField} in response.`
+    )
+  }
+
+  const sizeError = checkSize(data, allLimits)
+  if (sizeError) {
+    throw new CosmiframeInvalidResponseError(`Response ${sizeError}.`)
+  }
+
+  return data as MethodCallResultMessage
+}
+
+/**
+ * Run a validator, which fails if it throws or returns false, throwing the
+ * error created with the reason it failed.
+ */
+const runValidator = (
+  validate: ((value: any) => unknown) | undefined,
+  value: unknown,
+  createError: (reason?: string) => Error
+) => {
+  if (!validate) {
+    return
+  }
+
+  let valid: unknown
+  try {
+    valid = validate(value)
+  } catch (err) {
+    throw createError(err instanceof Error ? err.message : `${err}`)
+  }
+
+  if (valid === false) {
+    throw createError()
+  }
+}
+
+/**
+ * Validate the params of a request with the method's validator, if any,
+ * throwing a `CosmiframeInvalidRequestError` if they are invalid.
+ */
+export const validateParams = (
+  method: string,
+  params: unknown[],
+  validators?: Partial<Record<string, MethodValidator>>
+) =>
+  runValidator(
+    validators?.[method]?.params,
+    params,
+    (reason) =>
+      new CosmiframeInvalidRequestError(
+        `Invalid params for method '${method}'${reason ? `: ${reason}` : '.'}`
+      )
+  )
+
+/**
+ * Validate the result of a method with its validator, if any, throwing a
+ * `CosmiframeInvalidResponseError` if it is invalid.
+ */
+export const validateResult = (
+  method: string,
+  result: unknown,
+  validators?: Partial<Record<string, MethodValidator>>
+) =>
+  runValidator(
+    validators?.[method]?.result,
+    result,
+    (reason) =>
+      new CosmiframeInvalidResponseError(
+        `Invalid result for method '${method}'${reason ? `: ${reason}` : '.'}`
+      )
+  )